@@ -0,0 +1,76 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { AlertConditionSchema } from "@/lib/alerts";
+import { AlertLimitError, checkWebhookUrl, listAlerts, registerAlert, removeAlert } from "@/services/webhookAlerts";
+
+// The server keeps 24h of history per token, so move windows can't look back further than that.
+const Condition = AlertConditionSchema.refine((c) => c.kind !== "move" || c.minutes <= 1440, {
+  message: "minutes must be <= 1440",
+});
+
+const Body = z.object({
+  tokenId: z.string().min(1),
+  condition: Condition,
+  webhookUrl: z
+    .string()
+    .url()
+    .refine((u) => /^https?:\/\//i.test(u), { message: "webhookUrl must be http(s)" }),
+  label: z.string().max(200).optional(),
+});
+
+export const dynamic = "force-dynamic";
+
+const digest = (s: string) => createHash("sha256").update(s).digest();
+
+// Every method needs `Authorization: Bearer <ALERTS_SECRET>`; without the env var the API is off.
+function denied(req: NextRequest): NextResponse | null {
+  const secret = process.env.ALERTS_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: "Webhook alerts are disabled (ALERTS_SECRET is not set)" }, { status: 503 });
+  }
+  const given = (req.headers.get("authorization") ?? "").replace(/^Bearer\s+/i, "");
+  if (!timingSafeEqual(digest(given), digest(secret))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401, headers: { "WWW-Authenticate": "Bearer" } });
+  }
+  return null;
+}
+
+export async function GET(req: NextRequest) {
+  const deny = denied(req);
+  if (deny) return deny;
+  return NextResponse.json({ alerts: listAlerts() });
+}
+
+export async function POST(req: NextRequest) {
+  const deny = denied(req);
+  if (deny) return deny;
+  let json: unknown;
+  try {
+    json = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const parsed = Body.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid alert", issues: parsed.error.issues }, { status: 400 });
+  }
+  const rejected = await checkWebhookUrl(parsed.data.webhookUrl);
+  if (rejected) return NextResponse.json({ error: rejected }, { status: 400 });
+  try {
+    const alert = registerAlert(parsed.data);
+    return NextResponse.json(alert, { status: 201 });
+  } catch (e) {
+    if (e instanceof AlertLimitError) return NextResponse.json({ error: e.message }, { status: 429 });
+    throw e;
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  const deny = denied(req);
+  if (deny) return deny;
+  const id = req.nextUrl.searchParams.get("id");
+  if (!id) return NextResponse.json({ error: "id required" }, { status: 400 });
+  if (!removeAlert(id)) return NextResponse.json({ error: "Alert not found" }, { status: 404 });
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fetchOrderBook } from "@/services/clob";
+import { CACHE_POLICIES, cacheHeaders, cached } from "@/services/cache";
+
+export async function GET(req: NextRequest) {
+  const tokenId = req.nextUrl.searchParams.get("tokenId");
+  if (!tokenId) return NextResponse.json({ error: "tokenId required" }, { status: 400 });
+  try {
+    const res = await cached(`book:${tokenId}`, CACHE_POLICIES.book, () => fetchOrderBook(tokenId));
+    const book = res.value;
+    console.log("[book] tokenId:", tokenId, "levels:", book.bids.length, "/", book.asks.length, "cache:", res.status);
+    return NextResponse.json(book, { headers: cacheHeaders(res) });
+  } catch (e) {
+    console.error("[book] error:", e);
+    // Empty book on upstream failure to keep UI alive
+    return NextResponse.json({ bids: [], asks: [] });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  buildExport,
+  exportFilename,
+  toCsv,
+  EXPORT_DATA,
+  EXPORT_FORMATS,
+  type ExportData,
+  type ExportFormat,
+} from "@/lib/export";
+import { DEFAULT_TIME_ZONE, parseTf, parseTimeZone } from "@/lib/timeframes";
+import type { PricePoint } from "@/lib/types";
+import { fetchPriceHistory, fetchTopOfBook } from "@/services/clob";
+import { CACHE_POLICIES, cached } from "@/services/cache";
+
+// History backfill for both tokens plus a live top-of-book sample taken at request time.
+// Live ticks only exist in the browser, so the in-app export is the one with full tick detail.
+async function pointsFor(tokenId: string, interval: string): Promise<PricePoint[]> {
+  const [history, tob] = await Promise.allSettled([
+    cached(`history:${tokenId}:${interval}:1`, CACHE_POLICIES.history, () =>
+      fetchPriceHistory(tokenId, { interval, fidelity: "1" }),
+    ).then((r) => r.value),
+    cached(`price:${tokenId}`, CACHE_POLICIES.price, () => fetchTopOfBook(tokenId)).then((r) => r.value),
+  ]);
+  const points: PricePoint[] =
+    history.status === "fulfilled" ? history.value.map((h) => ({ t: h.t * 1000, p: h.p })) : [];
+  if (history.status === "rejected") console.error("[export] history error:", tokenId, history.reason);
+  if (tob.status === "fulfilled") {
+    const bid = tob.value.bestBid != null ? parseFloat(tob.value.bestBid) : NaN;
+    const ask = tob.value.bestAsk != null ? parseFloat(tob.value.bestAsk) : NaN;
+    const mid = Number.isFinite(bid) && Number.isFinite(ask) ? (bid + ask) / 2 : Number.isFinite(bid) ? bid : ask;
+    if (Number.isFinite(mid)) points.push({ t: Date.now(), p: mid });
+  }
+  return points;
+}
+
+export async function GET(req: NextRequest) {
+  const sp = req.nextUrl.searchParams;
+  const yesTokenId = sp.get("yesTokenId");
+  const noTokenId = sp.get("noTokenId");
+  if (!yesTokenId || !noTokenId) {
+    return NextResponse.json({ error: "yesTokenId and noTokenId required" }, { status: 400 });
+  }
+  const format = (sp.get("format") ?? "json").toLowerCase() as ExportFormat;
+  const data = (sp.get("data") ?? "ticks").toLowerCase() as ExportData;
+  if (!EXPORT_FORMATS.includes(format))
+    return NextResponse.json({ error: "format must be csv or json" }, { status: 400 });
+  if (!EXPORT_DATA.includes(data))
+    return NextResponse.json({ error: "data must be ticks or candles" }, { status: 400 });
+  const tfMinutes = parseTf(sp.get("tf")) ?? 5;
+  const timeZone = parseTimeZone(sp.get("tz")) ?? DEFAULT_TIME_ZONE;
+  const interval = sp.get("interval") ?? "1d";
+
+  console.log("[export] params:", { yesTokenId, noTokenId, format, data, tfMinutes, timeZone, interval });
+  const [yes, no] = await Promise.all([pointsFor(yesTokenId, interval), pointsFor(noTokenId, interval)]);
+  const payload = buildExport({ yes, no, tfMinutes, timeZone, yesTokenId, noTokenId });
+  const base = sp.get("name") ?? `polymarket-${yesTokenId.slice(0, 8)}`;
+
+  if (format === "csv") {
+    return new NextResponse(toCsv(payload, data), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${exportFilename(base, data, "csv")}"`,
+      },
+    });
+  }
+  return NextResponse.json(payload, {
+    headers: { "Content-Disposition": `attachment; filename="${exportFilename(base, "all", "json")}"` },
+  });
+}
@@ -1,26 +1,35 @@
 import { NextRequest, NextResponse } from "next/server";
-import axios from "axios";
+import { fetchPriceHistory } from "@/services/clob";
+import { CACHE_POLICIES, cacheHeaders, cached } from "@/services/cache";
+
+const SETTLED_AFTER_MS = 60 * 60_000;
+
+// Optional unix-seconds bound; undefined when absent, NaN when malformed.
+const tsParam = (raw: string | null) => (raw == null || raw === "" ? undefined : Number(raw));
 
 export async function GET(req: NextRequest) {
   const tokenId = req.nextUrl.searchParams.get("tokenId");
   const fidelity = req.nextUrl.searchParams.get("fidelity") ?? "1"; // minutes
-  const interval = req.nextUrl.searchParams.get("interval") ?? "1d"; // span bucket
+  const interval = req.nextUrl.searchParams.get("interval") ?? "1d"; // span bucket, unless a range is given
+  const startTs = tsParam(req.nextUrl.searchParams.get("startTs"));
+  const endTs = tsParam(req.nextUrl.searchParams.get("endTs"));
   if (!tokenId) return NextResponse.json({ error: "tokenId required" }, { status: 400 });
+  if (Number.isNaN(startTs) || Number.isNaN(endTs) || (startTs != null && endTs != null && startTs >= endTs)) {
+    return NextResponse.json({ error: "startTs / endTs must be unix seconds with startTs < endTs" }, { status: 400 });
+  }
+  const ranged = startTs != null || endTs != null;
 
   try {
-    console.log("[history] params:", { tokenId, fidelity, interval });
-    const { data } = await axios.get("https://clob.polymarket.com/prices-history", {
-      params: { market: tokenId, interval, fidelity },
-    });
-    console.log(
-      "[history] upstream length:",
-      Array.isArray(data?.history) ? data.history.length : Array.isArray(data) ? data.length : "n/a",
+    console.log("[history] params:", { tokenId, fidelity, ...(ranged ? { startTs, endTs } : { interval }) });
+    const key = ranged
+      ? `history:${tokenId}:${startTs}-${endTs}:${fidelity}`
+      : `history:${tokenId}:${interval}:${fidelity}`;
+    const settled = endTs != null && endTs * 1000 < Date.now() - SETTLED_AFTER_MS;
+    const res = await cached(key, settled ? CACHE_POLICIES.historySettled : CACHE_POLICIES.history, () =>
+      fetchPriceHistory(tokenId, ranged ? { fidelity, startTs, endTs } : { interval, fidelity }),
     );
-    // Expected shape: { history: [{t,p}...] } or []
-    if (!data || (Array.isArray(data) && data.length === 0)) {
-      return NextResponse.json({ history: [] });
-    }
-    return NextResponse.json(data);
+    console.log("[history] length:", res.value.length, "cache:", res.status);
+    return NextResponse.json({ history: res.value }, { headers: cacheHeaders(res) });
   } catch (e) {
     console.error("[history] error:", e);
     // Serve empty history on upstream failure to keep UI alive
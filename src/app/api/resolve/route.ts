@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import axios from "axios";
 import { z } from "zod";
+import type { MarketRef, OutcomeRef } from "@/lib/types";
+import { RESOLVE_ERROR_MESSAGES, parseMarketInput, type MarketInput, type ResolveErrorCode } from "@/lib/marketRef";
+import { CACHE_POLICIES, cacheHeaders, cached, type Cached } from "@/services/cache";
 
 const GammaMarket = z.object({
   question: z.string().nullable(),
   conditionId: z.string(),
   slug: z.string().nullable(),
   endDateIso: z.string().nullable().optional(),
+  groupItemTitle: z.string().nullable().optional(),
+  closed: z.boolean().nullable().optional(),
   clobTokenIds: z
     .union([z.string(), z.array(z.string())])
     .nullable()
@@ -19,15 +24,20 @@ const GammaMarket = z.object({
     .union([z.string(), z.array(z.string())])
     .nullable()
     .optional(),
+  events: z
+    .array(z.object({ slug: z.string().nullable().optional() }))
+    .nullable()
+    .optional(),
 });
+type GammaMarket = z.infer<typeof GammaMarket>;
 
-function extractSlug(u: string) {
-  const url = new URL(u);
-  const parts = url.pathname.split("/").filter(Boolean);
-  const idx = parts.indexOf("event");
-  if (idx >= 0 && parts[idx + 1]) return parts[idx + 1];
-  return parts.at(-1) ?? "";
-}
+const GammaEvent = z.object({
+  title: z.string().nullable().optional(),
+  slug: z.string().nullable().optional(),
+  endDate: z.string().nullable().optional(),
+  negRisk: z.boolean().nullable().optional(),
+  markets: z.array(z.unknown()).nullable().optional(),
+});
 
 function parseListField(value: unknown): string[] {
   if (!value) return [];
@@ -56,7 +66,94 @@ function parseListField(value: unknown): string[] {
     .filter(Boolean);
 }
 
+// Map a gamma market to a binary outcome; null when it doesn't have exactly two tokens.
+function toOutcome(m: GammaMarket): OutcomeRef | null {
+  const tokenIds = parseListField(m.clobTokenIds);
+  const shortOuts = parseListField(m.shortOutcomes);
+  const outs2 = parseListField(m.outcomes);
+  const outcomes = shortOuts.length ? shortOuts : outs2;
+  if (tokenIds.length !== 2) return null;
+
+  // Choose YES/NO mapping: prefer explicit Yes/No, otherwise default to [0]=YES, [1]=NO
+  let yesIdx = outcomes.findIndex((o) => /yes/i.test(o));
+  if (yesIdx < 0) yesIdx = 0;
+  const noIdx = yesIdx === 0 ? 1 : 0;
+
+  const question = m.question ?? "";
+  return {
+    question,
+    conditionId: m.conditionId,
+    yesTokenId: tokenIds[yesIdx],
+    noTokenId: tokenIds[noIdx],
+    label: m.groupItemTitle || question || outcomes[yesIdx] || "Yes",
+    endDateIso: m.endDateIso ?? undefined,
+    slug: m.slug ?? undefined,
+    yesLabel: outcomes[yesIdx] ?? "Yes",
+    noLabel: outcomes[noIdx] ?? "No",
+    closed: m.closed ?? undefined,
+  };
+}
+
+// Gamma GETs go through the shared cache; every lookup made for a request is recorded for the headers.
+async function gammaGet(
+  path: "events" | "markets",
+  params: Record<string, string>,
+  lookups: Array<Cached<unknown>>,
+): Promise<unknown[]> {
+  const res = await cached(`gamma:${path}:${new URLSearchParams(params)}`, CACHE_POLICIES.gamma, async () => {
+    const { data } = await axios.get(`https://gamma-api.polymarket.com/${path}`, { params });
+    return data as unknown;
+  });
+  lookups.push(res);
+  return Array.isArray(res.value) ? res.value : [];
+}
+
+function parseMarkets(list: unknown[]): GammaMarket[] {
+  return list.flatMap((d) => {
+    const parsed = GammaMarket.safeParse(d);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+type Lookup = { markets: GammaMarket[]; event: z.infer<typeof GammaEvent> | null };
+
+async function lookupEvent(slug: string, lookups: Array<Cached<unknown>>): Promise<Lookup | null> {
+  const events = await gammaGet("events", { slug }, lookups);
+  const event = events.length ? GammaEvent.safeParse(events[0]) : null;
+  if (!event?.success || !event.data.markets?.length) return null;
+  return { markets: parseMarkets(event.data.markets), event: event.data };
+}
+
+async function lookupMarkets(params: Record<string, string>, lookups: Array<Cached<unknown>>): Promise<Lookup | null> {
+  const markets = parseMarkets(await gammaGet("markets", params, lookups));
+  return markets.length ? { markets, event: null } : null;
+}
+
+// Event slugs cover both single-market events and categorical / neg-risk groups, so ambiguous slugs try
+// events first; market URLs try markets first. Condition and token ids map to exactly one market.
+async function lookup(input: MarketInput, lookups: Array<Cached<unknown>>): Promise<Lookup | null> {
+  switch (input.kind) {
+    case "event":
+    case "slug":
+      return (await lookupEvent(input.slug, lookups)) ?? (await lookupMarkets({ slug: input.slug }, lookups));
+    case "market":
+      return (await lookupMarkets({ slug: input.slug }, lookups)) ?? (await lookupEvent(input.slug, lookups));
+    case "condition":
+      return lookupMarkets({ condition_ids: input.conditionId }, lookups);
+    case "token":
+      return lookupMarkets({ clob_token_ids: input.tokenId }, lookups);
+  }
+}
+
+function fail(code: ResolveErrorCode, status: number, init?: { headers?: HeadersInit; extra?: object }) {
+  return NextResponse.json(
+    { error: RESOLVE_ERROR_MESSAGES[code], code, ...init?.extra },
+    { status, headers: init?.headers },
+  );
+}
+
 async function resolveFromUrl(req: NextRequest) {
+  const lookups: Array<Cached<unknown>> = [];
   try {
     let inputUrl: string | undefined;
     if (req.method === "GET") {
@@ -67,43 +164,24 @@ async function resolveFromUrl(req: NextRequest) {
       const parsed = Body.safeParse(body);
       inputUrl = parsed.success ? parsed.data.url : undefined;
     }
-    if (!inputUrl) return NextResponse.json({ error: "url required" }, { status: 400 });
-
-    const slug = extractSlug(inputUrl);
-    if (!slug) return NextResponse.json({ error: "could not parse slug" }, { status: 400 });
-
-    console.log("[resolve] incoming url:", inputUrl, "slug:", slug);
-    const { data } = await axios.get("https://gamma-api.polymarket.com/markets", { params: { slug } });
-
-    if (!Array.isArray(data) || data.length === 0) {
-      // Try to parse direct token id from URL paths like /market/<id> if present
-      const maybeId = slug?.match(/[0-9]{3,}/)?.[0];
-      if (maybeId) {
-        return NextResponse.json({
-          question: "",
-          conditionId: "",
-          yesTokenId: maybeId,
-          noTokenId: "",
-          slug,
-        });
-      }
-      return NextResponse.json({ error: "Market not found" }, { status: 404 });
-    }
+    const input = inputUrl ? parseMarketInput(inputUrl) : null;
+    if (!input) return fail("INVALID_INPUT", 400);
 
-    // Find the first strictly binary market (2 tokens)
-    const markets = data.map((d: unknown) => GammaMarket.parse(d));
-    const binary = markets.find((m) => {
-      const tokenIds = parseListField(m.clobTokenIds);
-      const out1 = parseListField(m.shortOutcomes);
-      const out2 = parseListField(m.outcomes);
-      const outs = out1.length ? out1 : out2;
-      return tokenIds.length === 2 || outs.length === 2;
-    });
+    console.log("[resolve] incoming:", inputUrl, "parsed:", input);
+
+    const found = await lookup(input, lookups);
+    if (!found || found.markets.length === 0) return fail("NOT_FOUND", 404, { headers: cacheHeaders(...lookups) });
+    const { markets, event: eventMeta } = found;
+
+    // Every binary child market becomes an outcome; resolved (closed) ones go last.
+    const outcomes = markets
+      .map(toOutcome)
+      .filter((o): o is OutcomeRef => o !== null)
+      .sort((a, b) => Number(Boolean(a.closed)) - Number(Boolean(b.closed)));
 
-    if (!binary) {
+    if (outcomes.length === 0) {
       const debug = req.nextUrl.searchParams.get("debug");
-      const payload = {
-        error: "Not a binary market for this slug",
+      const extra = {
         markets: markets.map((m) => ({
           conditionId: m.conditionId,
           clobTokenIds: m.clobTokenIds,
@@ -111,44 +189,29 @@ async function resolveFromUrl(req: NextRequest) {
           outcomes: m.outcomes,
         })),
       };
-      return NextResponse.json(payload, { status: debug ? 200 : 400 });
+      return fail("NO_BINARY_MARKETS", debug ? 200 : 400, { headers: cacheHeaders(...lookups), extra });
     }
 
-    const tokenIds = parseListField(binary.clobTokenIds);
-    const shortOuts = parseListField(binary.shortOutcomes);
-    const outs2 = parseListField(binary.outcomes);
-    const outcomes = shortOuts.length ? shortOuts : outs2;
-
-    if (tokenIds.length !== 2) return NextResponse.json({ error: "Binary market missing tokens" }, { status: 400 });
-
-    // Choose YES/NO mapping: prefer explicit Yes/No, otherwise default to [0]=YES, [1]=NO
-    let yesIdx = outcomes.findIndex((o) => /yes/i.test(o));
-    if (yesIdx < 0) yesIdx = 0;
-    const noIdx = yesIdx === 0 ? 1 : 0;
-
-    const response = {
-      question: binary.question ?? "",
-      conditionId: binary.conditionId,
-      yesTokenId: tokenIds[yesIdx],
-      noTokenId: tokenIds[noIdx],
-      endDateIso: binary.endDateIso ?? undefined,
-      slug: binary.slug ?? undefined,
-      yesLabel: outcomes[yesIdx] ?? "Yes",
-      noLabel: outcomes[noIdx] ?? "No",
+    // Standalone markets keep their own question; multi-outcome events are titled by the event.
+    const single = outcomes.length === 1;
+    const marketSlug = input.kind === "event" ? input.marketSlug : undefined;
+    const response: MarketRef = {
+      question: (single ? outcomes[0].question : eventMeta?.title) || outcomes[0].question,
+      endDateIso: eventMeta?.endDate ?? outcomes[0].endDateIso,
+      eventSlug: eventMeta?.slug ?? markets[0].events?.[0]?.slug ?? undefined,
+      negRisk: eventMeta?.negRisk ?? undefined,
+      outcomes: single ? [{ ...outcomes[0], label: outcomes[0].question }] : outcomes,
+      selectedOutcome: marketSlug && outcomes.some((o) => o.slug === marketSlug) ? marketSlug : undefined,
     };
-    console.log("[resolve] selected market:", {
+    console.log("[resolve] selected event:", {
       question: response.question,
-      conditionId: response.conditionId,
-      yesTokenId: response.yesTokenId,
-      noTokenId: response.noTokenId,
-      yesLabel: response.yesLabel,
-      noLabel: response.noLabel,
+      eventSlug: response.eventSlug,
+      outcomes: response.outcomes.map((o) => ({ label: o.label, yesTokenId: o.yesTokenId, noTokenId: o.noTokenId })),
     });
-    return NextResponse.json(response);
+    return NextResponse.json(response, { headers: cacheHeaders(...lookups) });
   } catch (e: unknown) {
-    const msg = e instanceof Error ? e.message : "unknown error";
     console.error("[resolve] error:", e);
-    return NextResponse.json({ error: msg }, { status: 500 });
+    return fail("UPSTREAM_ERROR", 502, { headers: cacheHeaders(...lookups) });
   }
 }
 
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { searchEvents } from "@/services/gamma";
+import { CACHE_POLICIES, cacheHeaders, cached } from "@/services/cache";
+
+const MIN_QUERY = 2;
+
+export async function GET(req: NextRequest) {
+  const q = (req.nextUrl.searchParams.get("q") ?? "").trim().toLowerCase();
+  const limit = Math.max(1, Math.min(20, Number.parseInt(req.nextUrl.searchParams.get("limit") ?? "8") || 8));
+  if (q.length < MIN_QUERY) return NextResponse.json({ results: [] });
+  try {
+    const res = await cached(`search:${limit}:${q}`, CACHE_POLICIES.search, () => searchEvents(q, limit));
+    console.log("[search] q:", q, "results:", res.value.length, "cache:", res.status);
+    return NextResponse.json({ results: res.value }, { headers: cacheHeaders(res) });
+  } catch (e) {
+    console.error("[search] error:", e);
+    // Empty results on upstream failure; the input still accepts pasted links
+    return NextResponse.json({ results: [] });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { subscribeTob } from "@/services/priceHub";
+
+export const dynamic = "force-dynamic";
+
+const KEEPALIVE_MS = 15_000;
+
+// Server-Sent Events: one `data:` line per TOB update ({ tokenId, bestBid, bestAsk, updatedAt }).
+// Accepts one or more `tokenId` params so a client can stream both outcomes on one connection.
+export async function GET(req: NextRequest) {
+  const tokenIds = Array.from(new Set(req.nextUrl.searchParams.getAll("tokenId").filter(Boolean)));
+  if (tokenIds.length === 0) return NextResponse.json({ error: "tokenId required" }, { status: 400 });
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      send("retry: 3000\n\n");
+      const unsubscribes = tokenIds.map((id) => subscribeTob(id, (u) => send(`data: ${JSON.stringify(u)}\n\n`)));
+      const keepAlive = setInterval(() => send(": keep-alive\n\n"), KEEPALIVE_MS);
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(keepAlive);
+        unsubscribes.forEach((u) => u());
+        try {
+          controller.close();
+        } catch {}
+      };
+      req.signal.addEventListener("abort", cleanup);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  console.log("[stream] subscribe:", tokenIds);
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
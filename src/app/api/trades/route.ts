@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fetchRecentTrades } from "@/services/dataApi";
+import { CACHE_POLICIES, cacheHeaders, cached } from "@/services/cache";
+
+export async function GET(req: NextRequest) {
+  const conditionId = req.nextUrl.searchParams.get("conditionId");
+  const tokenId = req.nextUrl.searchParams.get("tokenId") ?? undefined;
+  const limitStr = req.nextUrl.searchParams.get("limit");
+  const limit = Math.max(1, Math.min(500, Number.parseInt(limitStr ?? "100") || 100));
+  if (!conditionId) return NextResponse.json({ error: "conditionId required" }, { status: 400 });
+  try {
+    const res = await cached(`trades:${conditionId}:${tokenId ?? "all"}:${limit}`, CACHE_POLICIES.trades, () =>
+      fetchRecentTrades(conditionId, tokenId, limit),
+    );
+    const trades = res.value;
+    console.log(
+      "[trades] conditionId:",
+      conditionId,
+      "tokenId:",
+      tokenId,
+      "count:",
+      trades.length,
+      "cache:",
+      res.status,
+    );
+    return NextResponse.json({ trades }, { headers: cacheHeaders(res) });
+  } catch (e) {
+    console.error("[trades] error:", e);
+    // Serve empty tape on upstream failure to keep UI alive
+    return NextResponse.json({ trades: [] });
+  }
+}
@@ -0,0 +1,12 @@
+"use client";
+import { Suspense } from "react";
+import EmbedContent from "@/features/embed/EmbedContent";
+
+// No fallback chrome: the overlay stays transparent until it has something to show.
+export default function Embed() {
+  return (
+    <Suspense fallback={null}>
+      <EmbedContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,20 @@
+"use client";
+import { Suspense } from "react";
+import GridContent from "@/features/grid/GridContent";
+
+export default function Grid() {
+  return (
+    <Suspense
+      fallback={
+        <main className="min-h-screen bg-ink-bg text-ink-200">
+          <div className="mx-auto max-w-7xl px-4 py-6">
+            <h1 className="text-2xl font-semibold">Polymarket Viewer · Grid</h1>
+            <div className="mt-4 h-6 w-40 animate-pulse rounded bg-ink-800" />
+          </div>
+        </main>
+      }
+    >
+      <GridContent />
+    </Suspense>
+  );
+}
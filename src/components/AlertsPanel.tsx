@@ -0,0 +1,122 @@
+"use client";
+import { useState } from "react";
+import { describeRule, type AlertCondition, type AlertRule } from "@/lib/alerts";
+
+type Kind = AlertRule["kind"];
+
+export function AlertsPanel({
+  rules,
+  onAdd,
+  onRemove,
+  permission,
+  onRequestPermission,
+}: {
+  rules: AlertRule[];
+  onAdd: (rule: AlertCondition) => void;
+  onRemove: (id: string) => void;
+  permission: NotificationPermission | "unsupported";
+  onRequestPermission: () => void;
+}) {
+  const [kind, setKind] = useState<Kind>("above");
+  const [threshold, setThreshold] = useState(50);
+  const [points, setPoints] = useState(5);
+  const [minutes, setMinutes] = useState(10);
+
+  const add = () => {
+    if (kind === "move") {
+      if (points > 0 && minutes > 0) onAdd({ kind, points, minutes });
+    } else if (threshold >= 0 && threshold <= 100) {
+      onAdd({ kind, threshold: threshold / 100 });
+    }
+  };
+  const inputClass = "w-16 rounded bg-ink-900 px-2 py-1 ring-1 ring-ink-800";
+
+  return (
+    <div className="rounded-lg border border-ink-800 p-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold text-ink-300">Alerts</span>
+        {permission === "default" && (
+          <button
+            type="button"
+            className="rounded-md px-2 py-1 text-xs text-ink-300 ring-1 ring-ink-700 hover:ring-ink-500"
+            onClick={onRequestPermission}
+          >
+            Enable notifications
+          </button>
+        )}
+        {permission === "denied" && <span className="text-xs text-ink-500">Notifications blocked; chime only</span>}
+      </div>
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <select
+          className="rounded bg-ink-900 px-2 py-1 ring-1 ring-ink-800"
+          value={kind}
+          onChange={(e) => setKind(e.target.value as Kind)}
+        >
+          <option value="above">Crosses above</option>
+          <option value="below">Crosses below</option>
+          <option value="move">Moves more than</option>
+        </select>
+        {kind === "move" ? (
+          <>
+            <input
+              type="number"
+              min={0.1}
+              step={0.5}
+              className={inputClass}
+              value={points}
+              onChange={(e) => setPoints(Number(e.target.value))}
+            />
+            pts within
+            <input
+              type="number"
+              min={1}
+              className={inputClass}
+              value={minutes}
+              onChange={(e) => setMinutes(Number(e.target.value))}
+            />
+            min
+          </>
+        ) : (
+          <>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={0.5}
+              className={inputClass}
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+            />
+            %
+          </>
+        )}
+        <button
+          type="button"
+          className="rounded-md bg-ink-900 px-3 py-1 text-ink-200 ring-1 ring-ink-700 hover:ring-ink-500"
+          onClick={add}
+        >
+          Add
+        </button>
+      </div>
+      {rules.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {rules.map((r) => (
+            <li key={r.id} className="flex items-center justify-between gap-2 text-ink-300">
+              <span>{describeRule(r)}</span>
+              <button
+                type="button"
+                className="text-xs text-ink-500 hover:text-ink-200"
+                onClick={() => onRemove(r.id)}
+                aria-label="Remove alert"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default AlertsPanel;
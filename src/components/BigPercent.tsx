@@ -1,22 +1,45 @@
 "use client";
 import type { TimeSeries } from "@/lib/buffer";
+import type { PricePoint } from "@/lib/types";
+import { formatOdds, type OddsDisplay } from "@/lib/format";
+
+// Last point at or before `ts` in an ascending array.
+function lastAtOrBefore(points: PricePoint[], ts: number): PricePoint | undefined {
+  for (let i = points.length - 1; i >= 0; i--) if (points[i].t <= ts) return points[i];
+  return undefined;
+}
 
 export function BigPercent({
   series,
+  backfill,
   nowTs,
   delayMs,
   label,
   tvMode,
+  compact,
+  odds,
 }: {
   series: TimeSeries;
+  backfill?: PricePoint[]; // used where it's newer than the live series at the display time (e.g. replay)
   nowTs: number;
   delayMs: number;
   label?: string;
   tvMode?: boolean;
+  compact?: boolean; // grid tiles: smaller type so several readouts fit on one screen
+  odds?: OddsDisplay; // readout format (default: implied percent)
 }) {
+  const sizeClass = compact
+    ? tvMode
+      ? "text-[clamp(2.5rem,6vw,6rem)]"
+      : "text-5xl"
+    : tvMode
+      ? "text-[clamp(3rem,10vw,10rem)]"
+      : "text-7xl";
   const displayTs = nowTs - delayMs;
   // Spoiler-safe: only use last point at or before displayTs (no forward interpolation).
-  const pt = series.atOrBefore(displayTs as number);
+  const live = series.atOrBefore(displayTs as number);
+  const hist = backfill ? lastAtOrBefore(backfill, displayTs) : undefined;
+  const pt = hist && (!live || hist.t > live.t) ? hist : live;
   if (!pt) {
     const arr = series.toArray();
     const secs = (() => {
@@ -27,24 +50,19 @@ export function BigPercent({
       return Math.ceil(remainingMs / 1000);
     })();
     return (
-      <div className="my-6 text-center">
-        <div className={`font-extrabold tracking-tight ${tvMode ? "text-[clamp(3rem,10vw,10rem)]" : "text-7xl"}`}>
-          {secs != null ? `${secs}s` : "…"}
-        </div>
-        <div className={`${tvMode ? "text-xl sm:text-2xl" : "text-sm sm:text-base"} text-neutral-400`}>
+      <div className={`${compact ? "my-3" : "my-6"} text-center`}>
+        <div className={`font-extrabold tracking-tight ${sizeClass}`}>{secs != null ? `${secs}s` : "…"}</div>
+        <div className={`${tvMode ? "text-xl sm:text-2xl" : "text-sm sm:text-base"} text-ink-400`}>
           {label ? `${label} to win • ` : ""}
           {secs != null ? "data available soon" : "waiting for market data"}
         </div>
       </div>
     );
   }
-  const pct = (pt.p * 100).toFixed(1);
   return (
-    <div className="my-6 text-center">
-      <div className={`font-extrabold tracking-tight ${tvMode ? "text-[clamp(3rem,10vw,10rem)]" : "text-7xl"}`}>
-        {pct}%
-      </div>
-      <div className={`${tvMode ? "text-2xl sm:text-3xl" : "text-base sm:text-lg"} text-neutral-300`}>
+    <div className={`${compact ? "my-3" : "my-6"} text-center`}>
+      <div className={`font-extrabold tracking-tight ${sizeClass}`}>{formatOdds(pt.p, odds)}</div>
+      <div className={`${tvMode ? "text-2xl sm:text-3xl" : "text-base sm:text-lg"} text-ink-300`}>
         {label ?? "Outcome"} to win
       </div>
     </div>
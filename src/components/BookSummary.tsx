@@ -0,0 +1,91 @@
+"use client";
+import type { TOB, TobSnapshot } from "@/lib/types";
+import { bookAtOrBefore } from "@/lib/depth";
+import { formatDuration } from "@/lib/format";
+
+// Beyond this the mid is mostly noise, so the headline probability shouldn't be read too literally.
+const WIDE_SPREAD = 0.1;
+
+const cents = (p: number | undefined) => (p != null ? `${(p * 100).toFixed(1)}¢` : "—");
+
+function Row({ label, tob, displayTs }: { label: string; tob: TOB | undefined; displayTs: number }) {
+  const spread = tob?.bestBid != null && tob?.bestAsk != null ? tob.bestAsk - tob.bestBid : undefined;
+  const age = tob?.updatedAt != null ? displayTs - tob.updatedAt : undefined;
+  return (
+    <tr className="border-t border-ink-800">
+      <td className="truncate py-1.5 pr-2 text-ink-300">{label}</td>
+      <td className="py-1.5 pr-2 text-right text-up tabular-nums">{cents(tob?.bestBid)}</td>
+      <td className="py-1.5 pr-2 text-right text-down tabular-nums">{cents(tob?.bestAsk)}</td>
+      <td
+        className={`py-1.5 pr-2 text-right tabular-nums ${spread != null && spread > WIDE_SPREAD ? "text-amber-400" : "text-ink-300"}`}
+      >
+        {cents(spread)}
+      </td>
+      <td className="py-1.5 text-right text-ink-500 tabular-nums">
+        {age != null ? formatDuration(Math.max(0, age)) : "—"}
+      </td>
+    </tr>
+  );
+}
+
+// Best bid / ask / spread for both outcome tokens, shown as of the display time (nowTs - delayMs)
+// like the depth chart. Overround = YES ask + NO ask; above 100¢ is the cost of buying both sides.
+export function BookSummary({
+  snapshots,
+  nowTs,
+  delayMs,
+  yesLabel,
+  noLabel,
+}: {
+  snapshots: TobSnapshot[];
+  nowTs: number;
+  delayMs: number;
+  yesLabel?: string;
+  noLabel?: string;
+}) {
+  const displayTs = nowTs - delayMs;
+  const snap = bookAtOrBefore(snapshots, displayTs);
+  if (!snap) {
+    return (
+      <div className="rounded-lg border border-ink-800 p-3 text-xs text-ink-400">
+        {snapshots.length ? "Top of book available after delay" : "Waiting for top of book"}
+      </div>
+    );
+  }
+  const { yes, no } = snap;
+  const overround = yes.bestAsk != null && no.bestAsk != null ? yes.bestAsk + no.bestAsk : undefined;
+  const spreads = [yes, no].map((t) => (t.bestBid != null && t.bestAsk != null ? t.bestAsk - t.bestBid : undefined));
+  const wide = spreads.some((s) => s != null && s > WIDE_SPREAD);
+
+  return (
+    <div className="rounded-lg border border-ink-800 p-3 text-sm">
+      <table className="w-full table-fixed">
+        <thead>
+          <tr className="text-xs text-ink-500">
+            <th className="w-2/6 pb-1 text-left font-normal">Token</th>
+            <th className="pb-1 text-right font-normal">Bid</th>
+            <th className="pb-1 text-right font-normal">Ask</th>
+            <th className="pb-1 text-right font-normal">Spread</th>
+            <th className="pb-1 text-right font-normal">Age</th>
+          </tr>
+        </thead>
+        <tbody>
+          <Row label={yesLabel ?? "YES"} tob={yes} displayTs={displayTs} />
+          <Row label={noLabel ?? "NO"} tob={no} displayTs={displayTs} />
+        </tbody>
+      </table>
+      <div className="mt-2 flex flex-wrap items-center justify-between gap-2 text-xs">
+        <span className="text-ink-400">
+          Overround <span className="text-ink-200 tabular-nums">{cents(overround)}</span>
+        </span>
+        {wide && (
+          <span className="rounded bg-amber-950/60 px-2 py-0.5 text-amber-300 ring-1 ring-amber-800">
+            Wide spread: the displayed probability may not be meaningful
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default BookSummary;
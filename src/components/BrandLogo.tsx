@@ -0,0 +1,20 @@
+"use client";
+import Image from "next/image";
+
+// Venue logo from the theme (`logo=`). Arbitrary remote URLs, so the image is served as-is (`unoptimized`)
+// instead of through the optimizer, which would need every host allow-listed. width / height only set the
+// intrinsic ratio; CSS sizes it.
+export function BrandLogo({ src, className }: { src: string; className?: string }) {
+  return (
+    <Image
+      src={src}
+      alt=""
+      width={160}
+      height={48}
+      unoptimized
+      className={`w-auto object-contain ${className ?? "h-8"}`}
+    />
+  );
+}
+
+export default BrandLogo;
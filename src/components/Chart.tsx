@@ -4,31 +4,166 @@ import {
   createChart,
   CrosshairMode,
   CandlestickSeries,
+  HistogramSeries,
+  LineSeries,
+  AreaSeries,
+  LineStyle,
+  LineType,
+  TickMarkType,
   type ISeriesApi,
   type CandlestickData,
+  type HistogramData,
+  type LineData,
+  type SeriesType,
   type UTCTimestamp,
   type IChartApi,
+  type Time,
 } from "lightweight-charts";
-import type { Candle as CandleType } from "@/lib/types";
+import type { Candle as CandleType, PricePoint } from "@/lib/types";
+import { indicatorLines, type IndicatorId } from "@/lib/indicators";
+import { heikinAshi } from "@/lib/candles";
+import { isLineStyle, type ChartStyle } from "@/lib/chartStyle";
+import { DEFAULT_THEME, themeFontFamily, type Theme } from "@/lib/theme";
+import { DEFAULT_TIME_ZONE } from "@/lib/timeframes";
+import { DEFAULT_ODDS, formatOdds, type OddsDisplay } from "@/lib/format";
+
+// Gap-fill candles (no data in the bucket) are drawn in a muted ink shade so they don't read as real prints.
+const syntheticColor = (theme: Theme) => theme.ink["600"];
+
+// Bars from the left edge at which older history is requested.
+const OLDER_EDGE_BARS = 10;
+
+const NO_INDICATORS: IndicatorId[] = [];
+const NO_POINTS: PricePoint[] = [];
+
+// Official v5 API: supply series definition constant first argument
+type ChartWithAdd = IChartApi & {
+  addSeries: <T extends SeriesType>(def: unknown, opts?: unknown) => ISeriesApi<T>;
+};
+
+// Colour options for the main series; also re-applied when the theme changes.
+function mainSeriesColors(style: ChartStyle, theme: Theme) {
+  switch (style) {
+    case "line":
+    case "step":
+      return { color: theme.accent };
+    case "area":
+      return { lineColor: theme.accent, topColor: `${theme.accent}66`, bottomColor: `${theme.accent}00` };
+    default:
+      return { upColor: theme.up, downColor: theme.down, wickUpColor: theme.up, wickDownColor: theme.down };
+  }
+}
+
+function chartColors(theme: Theme) {
+  return {
+    layout: { textColor: theme.ink["300"], fontFamily: themeFontFamily(theme) },
+    grid: { horzLines: { color: theme.grid }, vertLines: { color: theme.grid } },
+  };
+}
+
+// Axis and crosshair labels in `timeZone`, so zone-aligned day / week candles read as local dates.
+function zoneFormatters(timeZone: string) {
+  const fmt = (opts: Intl.DateTimeFormatOptions) => new Intl.DateTimeFormat(undefined, { timeZone, ...opts });
+  const full = fmt({
+    day: "numeric",
+    month: "short",
+    year: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+  const byTick: Record<TickMarkType, Intl.DateTimeFormat> = {
+    [TickMarkType.Year]: fmt({ year: "numeric" }),
+    [TickMarkType.Month]: fmt({ month: "short" }),
+    [TickMarkType.DayOfMonth]: fmt({ day: "numeric", month: "short" }),
+    [TickMarkType.Time]: fmt({ hour: "2-digit", minute: "2-digit", hourCycle: "h23" }),
+    [TickMarkType.TimeWithSeconds]: fmt({ hour: "2-digit", minute: "2-digit", second: "2-digit", hourCycle: "h23" }),
+  };
+  const ms = (time: Time) => (time as number) * 1000;
+  return {
+    localization: { timeFormatter: (time: Time) => full.format(ms(time)) },
+    timeScale: { tickMarkFormatter: (time: Time, type: TickMarkType) => byTick[type].format(ms(time)) },
+  };
+}
+
+// Price axis and crosshair labels in the viewer's odds format (series values are probabilities).
+const oddsLocalization = (odds: OddsDisplay) => ({
+  localization: { priceFormatter: (p: number) => formatOdds(p, odds) },
+});
+
+function addMainSeries(chart: ChartWithAdd, style: ChartStyle, theme: Theme): ISeriesApi<SeriesType> {
+  const colors = mainSeriesColors(style, theme);
+  switch (style) {
+    case "line":
+      return chart.addSeries<"Line">(LineSeries, { ...colors, lineWidth: 2 });
+    case "step":
+      return chart.addSeries<"Line">(LineSeries, { ...colors, lineWidth: 2, lineType: LineType.WithSteps });
+    case "area":
+      return chart.addSeries<"Area">(AreaSeries, { ...colors, lineWidth: 2 });
+    default:
+      return chart.addSeries<"Candlestick">(CandlestickSeries, { ...colors, borderVisible: false });
+  }
+}
 
 export function Chart({
   candles,
   height = 320,
   tvMode = false,
+  indicators = NO_INDICATORS,
+  chartStyle = "candles",
+  points = NO_POINTS,
+  fontSize = 12,
+  frameless = false,
+  theme = DEFAULT_THEME,
+  seriesKey,
+  initialWindowMs = 4 * 60 * 60_000,
+  onNeedOlder,
+  timeZone = DEFAULT_TIME_ZONE,
+  odds = DEFAULT_ODDS,
 }: {
   candles: Array<CandleType>;
   height?: number;
   tvMode?: boolean;
+  indicators?: IndicatorId[];
+  chartStyle?: ChartStyle;
+  points?: PricePoint[]; // delayed ticks, plotted directly by the line/area/step styles
+  fontSize?: number; // axis label size in px
+  frameless?: boolean; // no border (overlays)
+  theme?: Theme;
+  seriesKey?: string; // identifies the data set; a change re-applies the initial window (default: first candle time)
+  initialWindowMs?: number; // span shown when data first arrives
+  onNeedOlder?: (fromMs: number) => void; // user scrolled near the oldest bar; asks for history back to fromMs
+  timeZone?: string; // zone for time labels (match the candle alignment)
+  odds?: OddsDisplay; // price label format
 }) {
   const ref = useRef<HTMLDivElement | null>(null);
-  const chartRef = useRef<{ chart: IChartApi; series: ISeriesApi<"Candlestick"> } | null>(null);
+  const chartRef = useRef<{
+    chart: IChartApi;
+    series: ISeriesApi<SeriesType>;
+    style: ChartStyle;
+    volume: ISeriesApi<"Histogram">;
+    lines: Map<string, ISeriesApi<"Line">>;
+  } | null>(null);
   const [chartErr, setChartErr] = useState<string | null>(null);
+  // Read by the one-time init; later style changes swap the series in their own effect
+  const styleRef = useRef(chartStyle);
+  styleRef.current = chartStyle;
+  const fontSizeRef = useRef(fontSize);
+  fontSizeRef.current = fontSize;
+  const themeRef = useRef(theme);
+  themeRef.current = theme;
+  const timeZoneRef = useRef(timeZone);
+  timeZoneRef.current = timeZone;
+  const oddsRef = useRef(odds);
+  oddsRef.current = odds;
+  const onNeedOlderRef = useRef(onNeedOlder);
+  onNeedOlderRef.current = onNeedOlder;
   const [containerWidth, setContainerWidth] = useState(0);
   const userZoomedRef = useRef(false);
   const programmaticRangeChangeRef = useRef(false);
   const [zoomed, setZoomed] = useState(false);
   const appliedInitialWindowRef = useRef(false);
-  const prevSeriesStartRef = useRef<number | null>(null);
+  const prevSeriesKeyRef = useRef<string | number | null>(null);
   const totalFromSecRef = useRef<number | null>(null);
   const totalToSecRef = useRef<number | null>(null);
 
@@ -76,28 +211,32 @@ export function Chart({
       if (containerWidth <= 0 || height <= 0) return;
 
       if (!chartRef.current) {
+        const colors = chartColors(themeRef.current);
+        const zone = zoneFormatters(timeZoneRef.current);
         const chart = createChart(el, {
+          localization: { ...zone.localization, ...oddsLocalization(oddsRef.current).localization },
           width: containerWidth,
           height,
-          layout: { textColor: "#cbd5e1", background: { color: "transparent" } },
+          layout: { ...colors.layout, background: { color: "transparent" }, fontSize: fontSizeRef.current },
           rightPriceScale: { borderVisible: false },
-          timeScale: { borderVisible: false },
+          timeScale: { borderVisible: false, ...zone.timeScale },
           crosshair: { mode: CrosshairMode.Magnet },
-          grid: { horzLines: { color: "#1f2937" }, vertLines: { color: "#1f2937" } },
+          grid: colors.grid,
         });
-        // Official v5 API: supply series definition constant first argument
-        type ChartWithAdd = IChartApi & { addSeries: (def: unknown, opts?: unknown) => ISeriesApi<"Candlestick"> };
         const cwa = chart as ChartWithAdd;
         if (typeof cwa.addSeries !== "function") {
           throw new Error("lightweight-charts addSeries API unavailable");
         }
-        const series = cwa.addSeries(CandlestickSeries, {
-          upColor: "#10b981",
-          downColor: "#ef4444",
-          wickUpColor: "#10b981",
-          wickDownColor: "#ef4444",
-          borderVisible: false,
+        const style = styleRef.current;
+        const series = addMainSeries(cwa, style, themeRef.current);
+        // Volume histogram on its own overlay scale, pinned to the bottom fifth of the pane
+        const volume = cwa.addSeries<"Histogram">(HistogramSeries, {
+          priceScaleId: "volume",
+          priceFormat: { type: "volume" },
+          lastValueVisible: false,
+          priceLineVisible: false,
         });
+        volume.priceScale().applyOptions({ scaleMargins: { top: 0.8, bottom: 0 } });
         // Nudge view slightly so last candle isn't flush with edge
         chart.timeScale().applyOptions({ rightOffset: 5 });
 
@@ -106,12 +245,19 @@ export function Chart({
         const handleVisibleLogicalRangeChange = () => {
           if (!programmaticRangeChangeRef.current) {
             userZoomedRef.current = true;
+            // Only user scrolling pages in history; a programmatic fit would otherwise load it all
+            const lr = ts.getVisibleLogicalRange();
+            const vr = ts.getVisibleRange();
+            if (lr && vr && lr.from < OLDER_EDGE_BARS) {
+              const span = (vr.to as number) - (vr.from as number);
+              onNeedOlderRef.current?.(((vr.from as number) - span) * 1000);
+            }
           }
           requestAnimationFrame(() => recomputeZoomState());
         };
         ts.subscribeVisibleLogicalRangeChange(handleVisibleLogicalRangeChange);
 
-        chartRef.current = { chart, series };
+        chartRef.current = { chart, series, style, volume, lines: new Map() };
         return () => {
           try {
             ts.unsubscribeVisibleLogicalRangeChange(handleVisibleLogicalRangeChange);
@@ -130,39 +276,93 @@ export function Chart({
     }
   }, [containerWidth, height, recomputeZoomState]);
 
+  useEffect(() => {
+    chartRef.current?.chart.applyOptions({ layout: { fontSize } });
+  }, [fontSize]);
+
+  useEffect(() => {
+    chartRef.current?.chart.applyOptions(zoneFormatters(timeZone));
+  }, [timeZone]);
+
+  useEffect(() => {
+    chartRef.current?.chart.applyOptions(oddsLocalization(odds));
+  }, [odds]);
+
+  // Re-colour in place on theme changes (candle / volume colours follow with the next data pass)
+  useEffect(() => {
+    const cur = chartRef.current;
+    if (!cur) return;
+    cur.chart.applyOptions(chartColors(theme));
+    cur.series.applyOptions(mainSeriesColors(cur.style, theme));
+  }, [theme]);
+
+  // Swap the main series when the chart style changes
+  useEffect(() => {
+    const cur = chartRef.current;
+    if (!cur || cur.style === chartStyle) return;
+    try {
+      cur.chart.removeSeries(cur.series);
+      cur.series = addMainSeries(cur.chart as ChartWithAdd, chartStyle, themeRef.current);
+      cur.style = chartStyle;
+    } catch (e) {
+      console.error("[Chart] style change error", e);
+    }
+  }, [chartStyle]);
+
   // Set data on changes
   useEffect(() => {
     if (!chartRef.current) return;
     try {
-      const { series, chart } = chartRef.current;
-      const mapped: CandlestickData<UTCTimestamp>[] = candles.map((c: CandleType) => ({
-        time: Math.floor(c.t / 1000) as UTCTimestamp,
-        open: c.open,
-        high: c.high,
-        low: c.low,
-        close: c.close,
-      }));
-      const data: CandlestickData<UTCTimestamp>[] = [];
+      const { series, volume, chart, style } = chartRef.current;
+      const candleData: CandlestickData<UTCTimestamp>[] = [];
+      const volumeData: HistogramData<UTCTimestamp>[] = [];
       let lastTime: number | null = null;
-      for (const d of mapped) {
-        const t = d.time as number;
-        if (lastTime !== null && t <= lastTime) continue;
-        data.push(d);
-        lastTime = t;
+      for (const c of style === "heikin-ashi" ? heikinAshi(candles) : candles) {
+        const time = Math.floor(c.t / 1000) as UTCTimestamp;
+        if (lastTime !== null && time <= lastTime) continue;
+        lastTime = time;
+        candleData.push({
+          time,
+          open: c.open,
+          high: c.high,
+          low: c.low,
+          close: c.close,
+          ...(c.synthetic ? { color: syntheticColor(theme), wickColor: syntheticColor(theme) } : {}),
+        });
+        if (c.volume) {
+          volumeData.push({
+            time,
+            value: c.volume,
+            color: c.close >= c.open ? `${theme.up}66` : `${theme.down}66`,
+          });
+        }
+      }
+      const lineData: LineData<UTCTimestamp>[] = [];
+      if (isLineStyle(style)) {
+        lastTime = null;
+        for (const p of points) {
+          const time = Math.floor(p.t / 1000) as UTCTimestamp;
+          if (lastTime !== null && time <= lastTime) continue;
+          lastTime = time;
+          lineData.push({ time, value: p.p });
+        }
       }
+      const data: Array<{ time: UTCTimestamp }> = isLineStyle(style) ? lineData : candleData;
       if (data.length === 0) {
-        console.debug("[Chart] No candles to display", { candles: candles.length });
+        console.debug("[Chart] No data to display", { candles: candles.length, points: points.length });
         return;
       }
-      // Detect series change (first timestamp change) and reset the initial window flag
-      const firstTs = candles[0]?.t ?? null;
-      if (firstTs !== prevSeriesStartRef.current) {
-        prevSeriesStartRef.current = firstTs;
+      // Detect series change (new seriesKey, or first timestamp change) and reset the initial window flag
+      const key = seriesKey ?? candles[0]?.t ?? null;
+      if (key !== prevSeriesKeyRef.current) {
+        prevSeriesKeyRef.current = key;
         appliedInitialWindowRef.current = false;
         userZoomedRef.current = false;
       }
 
-      series.setData(data);
+      if (isLineStyle(style)) (series as ISeriesApi<"Line">).setData(lineData);
+      else (series as ISeriesApi<"Candlestick">).setData(candleData);
+      volume.setData(volumeData);
 
       // Cache total bounds for stable comparisons
       const firstSec = data[0].time as number;
@@ -170,15 +370,15 @@ export function Chart({
       totalFromSecRef.current = firstSec;
       totalToSecRef.current = lastSec;
 
-      // Apply initial 4-hour view once when data arrives, unless user already interacted or we already applied
+      // Apply the initial window once when data arrives, unless user already interacted or we already applied
       if (!appliedInitialWindowRef.current && !userZoomedRef.current) {
         const lastSec = data[data.length - 1].time as number;
-        const fourHours = 4 * 60 * 60;
+        const windowSec = Math.floor(initialWindowMs / 1000);
         programmaticRangeChangeRef.current = true;
         try {
           chart
             .timeScale()
-            .setVisibleRange({ from: (lastSec - fourHours) as UTCTimestamp, to: lastSec as UTCTimestamp });
+            .setVisibleRange({ from: (lastSec - windowSec) as UTCTimestamp, to: lastSec as UTCTimestamp });
         } finally {
           appliedInitialWindowRef.current = true;
           setTimeout(() => {
@@ -196,14 +396,58 @@ export function Chart({
       console.error("[Chart] data error", e);
       setChartErr(msg);
     }
-  }, [candles, recomputeZoomState]);
+  }, [candles, points, chartStyle, theme, seriesKey, initialWindowMs, recomputeZoomState]);
+
+  // Indicator overlays: one line series per enabled line, created/removed as the selection changes
+  useEffect(() => {
+    if (!chartRef.current) return;
+    try {
+      const { chart, lines } = chartRef.current;
+      const wanted = indicatorLines(candles, indicators);
+      const wantedKeys = new Set(wanted.map((l) => l.key));
+      for (const [key, s] of lines) {
+        if (wantedKeys.has(key)) continue;
+        chart.removeSeries(s);
+        lines.delete(key);
+      }
+      for (const line of wanted) {
+        let s = lines.get(line.key);
+        if (!s) {
+          s = (chart as ChartWithAdd).addSeries<"Line">(LineSeries, {
+            color: line.color,
+            lineWidth: 1,
+            lineStyle: line.dashed ? LineStyle.Dashed : LineStyle.Solid,
+            priceLineVisible: false,
+            lastValueVisible: false,
+            crosshairMarkerVisible: false,
+          });
+          lines.set(line.key, s);
+        }
+        const data: LineData<UTCTimestamp>[] = [];
+        let lastTime: number | null = null;
+        for (const p of line.points) {
+          const time = Math.floor(p.t / 1000) as UTCTimestamp;
+          if (lastTime !== null && time <= lastTime) continue;
+          lastTime = time;
+          data.push({ time, value: p.value });
+        }
+        s.setData(data);
+      }
+    } catch (e) {
+      console.error("[Chart] indicator error", e);
+    }
+  }, [candles, indicators]);
 
-  const hasData = candles.length > 0;
+  const hasData = isLineStyle(chartStyle) ? points.length > 0 : candles.length > 0;
   return (
-    <div ref={ref} className="relative w-full rounded-lg border border-neutral-800" style={{ height }}>
+    <div
+      ref={ref}
+      className={`relative w-full ${frameless ? "" : "rounded-lg border border-ink-800"}`}
+      style={{ height }}
+    >
       {!hasData && (
         <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
-          <div className="rounded-md bg-black/60 px-3 py-2 text-sm text-neutral-400 ring-1 ring-neutral-800">
+          <div className="rounded-md bg-ink-bg/60 px-3 py-2 text-sm text-ink-400 ring-1 ring-ink-800">
             No candles yet for this delay/timeframe
           </div>
         </div>
@@ -219,7 +463,7 @@ export function Chart({
         <div className="absolute top-2 left-2 z-10">
           <button
             type="button"
-            className="inline-flex items-center gap-1 rounded-md bg-neutral-900/80 px-2 py-1 text-xs text-neutral-200 ring-1 ring-neutral-700 hover:bg-neutral-800"
+            className="inline-flex items-center gap-1 rounded-md bg-ink-900/80 px-2 py-1 text-xs text-ink-200 ring-1 ring-ink-700 hover:bg-ink-800"
             onClick={() => {
               const c = chartRef.current?.chart;
               if (!c) return;
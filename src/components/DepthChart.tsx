@@ -0,0 +1,93 @@
+"use client";
+import type { OrderBook } from "@/lib/types";
+import { bookAtOrBefore, cumulativeDepth, type DepthPoint } from "@/lib/depth";
+import { formatOdds, type OddsDisplay } from "@/lib/format";
+
+const W = 1000; // SVG user units; the chart stretches to the container width
+
+export function DepthChart({
+  snapshots,
+  nowTs,
+  delayMs,
+  height = 160,
+  range = 0.1,
+  tvMode,
+  odds,
+}: {
+  snapshots: OrderBook[];
+  nowTs: number;
+  delayMs: number;
+  height?: number;
+  range?: number; // price distance either side of the mid (0.1 = 10 points)
+  tvMode?: boolean;
+  odds?: OddsDisplay; // price label format (default: implied percent)
+}) {
+  // Spoiler-safe: same display clock as BigPercent, never a snapshot newer than nowTs - delayMs.
+  const book = bookAtOrBefore(snapshots, nowTs - delayMs);
+  const depth = book ? cumulativeDepth(book, range) : undefined;
+  const textClass = tvMode ? "text-sm" : "text-xs";
+
+  if (!depth || depth.maxCum <= 0) {
+    return (
+      <div
+        className={`flex items-center justify-center rounded-lg border border-ink-800 text-ink-400 ${textClass}`}
+        style={{ height }}
+      >
+        {snapshots.length ? "Order book available after delay" : "Waiting for order book"}
+      </div>
+    );
+  }
+
+  const lo = depth.mid - range;
+  const hi = depth.mid + range;
+  const x = (p: number) => ((p - lo) / (hi - lo)) * W;
+  const y = (c: number) => height - (c / depth.maxCum) * (height - 8);
+  // Step outline from the touch outward, closed down to the baseline at the chart edge.
+  const area = (pts: DepthPoint[], edgeX: number) => {
+    if (!pts.length) return "";
+    let d = `M ${x(pts[0].price)} ${height} L ${x(pts[0].price)} ${y(pts[0].cum)}`;
+    for (let i = 1; i < pts.length; i++) {
+      d += ` L ${x(pts[i].price)} ${y(pts[i - 1].cum)} L ${x(pts[i].price)} ${y(pts[i].cum)}`;
+    }
+    return `${d} L ${edgeX} ${y(pts[pts.length - 1].cum)} L ${edgeX} ${height} Z`;
+  };
+  const pct = (p: number) => formatOdds(p, odds);
+
+  return (
+    <div className="relative w-full rounded-lg border border-ink-800" style={{ height }}>
+      <svg viewBox={`0 0 ${W} ${height}`} preserveAspectRatio="none" className="absolute inset-0 h-full w-full">
+        <path
+          d={area(depth.bids, 0)}
+          className="fill-up/20 stroke-up"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        <path
+          d={area(depth.asks, W)}
+          className="fill-down/20 stroke-down"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        <line
+          x1={W / 2}
+          x2={W / 2}
+          y1={0}
+          y2={height}
+          className="stroke-ink-700"
+          strokeDasharray="4 4"
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className={`pointer-events-none absolute inset-x-2 top-1 flex justify-between text-ink-400 ${textClass}`}>
+        <span>Depth {Math.round(depth.maxCum).toLocaleString()}</span>
+        <span>Mid {pct(depth.mid)}</span>
+      </div>
+      <div className={`pointer-events-none absolute inset-x-2 bottom-1 flex justify-between text-ink-500 ${textClass}`}>
+        <span>{pct(Math.max(0, lo))}</span>
+        <span>{pct(Math.min(1, hi))}</span>
+      </div>
+    </div>
+  );
+}
+
+export default DepthChart;
@@ -0,0 +1,62 @@
+"use client";
+import { useState } from "react";
+import { exportFilename, toCsv, type ExportData, type ExportFormat, type ExportPayload } from "@/lib/export";
+
+function download(filename: string, body: string, type: string) {
+  const url = URL.createObjectURL(new Blob([body], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// `getPayload` is called on click so the export reflects the delayed view at that moment.
+export function ExportMenu({ getPayload, name }: { getPayload: () => ExportPayload; name: string }) {
+  const [open, setOpen] = useState(false);
+
+  const run = (format: ExportFormat, data: ExportData | "all") => {
+    try {
+      const payload = getPayload();
+      if (format === "json") {
+        download(exportFilename(name, data, format), JSON.stringify(payload, null, 2), "application/json");
+      } else {
+        download(exportFilename(name, data, format), toCsv(payload, data === "all" ? "ticks" : data), "text/csv");
+      }
+    } catch (e) {
+      console.error("[Export] failed", e);
+    }
+    setOpen(false);
+  };
+  const itemClass = "block w-full px-3 py-1.5 text-left text-sm text-ink-300 hover:bg-ink-800";
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        className="inline-flex items-center gap-1 rounded-full bg-ink-900 px-3 py-1.5 text-xs text-ink-300 ring-1 ring-ink-800 hover:ring-ink-600 sm:text-sm"
+        onClick={() => setOpen((v) => !v)}
+        aria-expanded={open}
+      >
+        Export
+      </button>
+      {open && (
+        <div className="absolute left-0 z-20 mt-1 w-44 overflow-hidden rounded-md bg-ink-900 py-1 ring-1 ring-ink-700">
+          <button type="button" className={itemClass} onClick={() => run("csv", "ticks")}>
+            Ticks (CSV)
+          </button>
+          <button type="button" className={itemClass} onClick={() => run("csv", "candles")}>
+            Candles (CSV)
+          </button>
+          <button type="button" className={itemClass} onClick={() => run("json", "all")}>
+            Ticks + candles (JSON)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExportMenu;
@@ -0,0 +1,31 @@
+"use client";
+import { FEED_HEALTH_LABELS, type FeedHealth } from "@/lib/feedHealth";
+import { formatDuration } from "@/lib/format";
+
+// Loud warning for stale / offline feeds so a venue display never silently shows a frozen number.
+// Renders nothing while the feed is healthy.
+export function FeedHealthBanner({
+  health,
+  staleMs,
+  tvMode,
+  compact,
+}: {
+  health: FeedHealth;
+  staleMs?: number;
+  tvMode?: boolean;
+  compact?: boolean;
+}) {
+  if (health !== "stale" && health !== "offline") return null;
+  const since = staleMs != null ? ` ${formatDuration(staleMs)}` : "";
+  return (
+    <div
+      role="alert"
+      className={`mt-3 rounded-lg border border-red-800 bg-red-950/80 text-center text-red-100 ${tvMode && !compact ? "px-4 py-3 text-xl sm:text-2xl" : "px-3 py-2 text-sm"}`}
+    >
+      <span className="font-semibold">{`${FEED_HEALTH_LABELS[health]}${since}`}</span>
+      <span className="text-red-300"> · the price shown may be out of date</span>
+    </div>
+  );
+}
+
+export default FeedHealthBanner;
@@ -1,4 +1,5 @@
 "use client";
+import BrandLogo from "./BrandLogo";
 
 type ShareStatus = "idle" | "copied" | "failed";
 
@@ -9,6 +10,7 @@ export function Header({
   onToggleTv,
   shareStatus,
   onShare,
+  logo,
 }: {
   title: string;
   compact: boolean;
@@ -16,18 +18,22 @@ export function Header({
   onToggleTv: (v: boolean) => void;
   shareStatus: ShareStatus;
   onShare: () => void | Promise<void>;
+  logo?: string; // venue logo from the theme
 }) {
   return (
     <div className="flex items-center justify-between gap-4">
-      <h1
-        className={`font-semibold ${compact ? "line-clamp-2 text-base text-slate-300 sm:text-lg md:text-xl" : "text-xl sm:text-2xl"}`}
-      >
-        {title}
-      </h1>
+      <div className="flex min-w-0 items-center gap-3">
+        {logo && <BrandLogo src={logo} className={compact ? "h-10" : "h-8"} />}
+        <h1
+          className={`font-semibold ${compact ? "line-clamp-2 text-base text-ink-300 sm:text-lg md:text-xl" : "text-xl sm:text-2xl"}`}
+        >
+          {title}
+        </h1>
+      </div>
       <div className="flex items-center gap-2">
         <button
           type="button"
-          className={`inline-flex items-center gap-2 rounded-md bg-neutral-900 px-3 py-1.5 text-xs ring-1 transition sm:text-sm ${shareStatus === "copied" ? "text-emerald-200 ring-emerald-600" : "text-neutral-300 ring-neutral-700 hover:ring-neutral-500"}`}
+          className={`inline-flex items-center gap-2 rounded-md bg-ink-900 px-3 py-1.5 text-xs ring-1 transition sm:text-sm ${shareStatus === "copied" ? "text-up ring-up" : "text-ink-300 ring-ink-700 hover:ring-ink-500"}`}
           onClick={onShare}
           aria-label="Copy shareable link"
           title="Copy shareable link"
@@ -41,7 +47,7 @@ export function Header({
             type="checkbox"
             checked={tvMode}
             onChange={(e) => onToggleTv(e.target.checked)}
-            className="h-4 w-4 accent-neutral-500"
+            className="h-4 w-4 accent-ink-500"
           />
           TV mode
         </label>
@@ -1,9 +1,16 @@
 "use client";
 import type { TF } from "@/lib/timeframes";
-import { TIMEFRAME_MINUTES } from "@/lib/timeframes";
+import { DEFAULT_TIME_ZONE, TIMEFRAME_MINUTES, formatTf } from "@/lib/timeframes";
+import { INDICATOR_IDS, INDICATORS, type IndicatorId } from "@/lib/indicators";
+import { CHART_STYLES, CHART_STYLE_LABELS, type ChartStyle } from "@/lib/chartStyle";
+import { PRICING_MODELS, PRICING_MODEL_LABELS, type PricingModel } from "@/lib/pricing";
+import { ODDS_FORMATS, ODDS_FORMAT_LABELS, type OddsFormat } from "@/lib/format";
 
 export function MarketControls({
   tvMode,
+  outcomes,
+  outcomeKey,
+  onOutcomeChange,
   pov,
   yesLabel,
   noLabel,
@@ -12,8 +19,21 @@ export function MarketControls({
   onDelayChange,
   tf,
   onTfChange,
+  indicators,
+  onIndicatorsChange,
+  chartStyle,
+  onChartStyleChange,
+  model,
+  onModelChange,
+  timeZone,
+  onTimeZoneChange,
+  oddsFormat,
+  onOddsFormatChange,
 }: {
   tvMode: boolean;
+  outcomes?: Array<{ key: string; label: string }>;
+  outcomeKey?: string;
+  onOutcomeChange?: (key: string) => void;
   pov: "YES" | "NO";
   yesLabel?: string;
   noLabel?: string;
@@ -22,23 +42,55 @@ export function MarketControls({
   onDelayChange: (v: number) => void;
   tf: TF;
   onTfChange: (v: TF) => void;
+  indicators?: IndicatorId[];
+  onIndicatorsChange?: (v: IndicatorId[]) => void;
+  chartStyle?: ChartStyle;
+  onChartStyleChange?: (v: ChartStyle) => void;
+  model?: PricingModel;
+  onModelChange?: (v: PricingModel) => void;
+  timeZone?: string; // zone that hour / day / week candles are aligned to
+  onTimeZoneChange?: (v: string) => void;
+  oddsFormat?: OddsFormat;
+  onOddsFormatChange?: (v: OddsFormat) => void;
 }) {
   if (tvMode) return null;
+  // A custom `tf=` from the URL stays selectable alongside the presets
+  const tfOptions = (TIMEFRAME_MINUTES as readonly number[]).includes(tf)
+    ? TIMEFRAME_MINUTES
+    : [...TIMEFRAME_MINUTES, tf];
+  const localZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const zoneOptions = [...new Set([DEFAULT_TIME_ZONE, localZone, timeZone ?? DEFAULT_TIME_ZONE])];
   return (
-    <div className="relative mt-3 flex flex-wrap items-center gap-3 pl-3 before:absolute before:top-1/2 before:left-0 before:h-5 before:w-0.5 before:-translate-y-1/2 before:rounded-full before:bg-neutral-700">
+    <div className="relative mt-3 flex flex-wrap items-center gap-3 pl-3 before:absolute before:top-1/2 before:left-0 before:h-5 before:w-0.5 before:-translate-y-1/2 before:rounded-full before:bg-ink-700">
+      {outcomes && outcomes.length > 1 && (
+        <label className="flex items-center gap-2 text-sm">
+          Market
+          <select
+            className="max-w-[16rem] rounded bg-ink-900 px-2 py-1 ring-1 ring-ink-800"
+            value={outcomeKey}
+            onChange={(e) => onOutcomeChange?.(e.target.value)}
+          >
+            {outcomes.map((o) => (
+              <option key={o.key} value={o.key}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
       <div className="flex items-center gap-2 text-sm">
         <span>Outcome</span>
-        <div className="inline-flex overflow-hidden rounded-md bg-neutral-900 ring-1 ring-neutral-800">
+        <div className="inline-flex overflow-hidden rounded-md bg-ink-900 ring-1 ring-ink-800">
           <button
             type="button"
-            className={`px-4 py-2 text-sm font-semibold ${pov === "YES" ? "bg-neutral-700 text-white" : "text-slate-300 hover:bg-neutral-800"}`}
+            className={`px-4 py-2 text-sm font-semibold ${pov === "YES" ? "bg-ink-700 text-ink-fg" : "text-ink-300 hover:bg-ink-800"}`}
             onClick={() => onPovChange("YES")}
           >
             {yesLabel ?? "YES"}
           </button>
           <button
             type="button"
-            className={`px-4 py-2 text-sm font-semibold ${pov === "NO" ? "bg-neutral-700 text-white" : "text-slate-300 hover:bg-neutral-800"}`}
+            className={`px-4 py-2 text-sm font-semibold ${pov === "NO" ? "bg-ink-700 text-ink-fg" : "text-ink-300 hover:bg-ink-800"}`}
             onClick={() => onPovChange("NO")}
           >
             {noLabel ?? "NO"}
@@ -51,7 +103,7 @@ export function MarketControls({
           type="number"
           min={0}
           max={600}
-          className="w-20 rounded bg-neutral-900 px-2 py-1 ring-1 ring-neutral-800"
+          className="w-20 rounded bg-ink-900 px-2 py-1 ring-1 ring-ink-800"
           value={delaySec}
           onChange={(e) => onDelayChange(Number(e.target.value))}
         />
@@ -60,17 +112,103 @@ export function MarketControls({
       <label className="flex items-center gap-2 text-sm">
         Candle size
         <select
-          className="rounded bg-neutral-900 px-2 py-1 ring-1 ring-neutral-800"
+          className="rounded bg-ink-900 px-2 py-1 ring-1 ring-ink-800"
           value={tf}
-          onChange={(e) => onTfChange(Number(e.target.value) as TF)}
+          onChange={(e) => onTfChange(Number(e.target.value))}
         >
-          {TIMEFRAME_MINUTES.map((m) => (
+          {tfOptions.map((m) => (
             <option key={m} value={m}>
-              {m}m
+              {formatTf(m)}
             </option>
           ))}
         </select>
       </label>
+      {onTimeZoneChange && tf >= 60 && (
+        <label className="flex items-center gap-2 text-sm" title="Hour, day and week candles start at midnight here">
+          Day starts
+          <select
+            className="rounded bg-ink-900 px-2 py-1 ring-1 ring-ink-800"
+            value={timeZone ?? DEFAULT_TIME_ZONE}
+            onChange={(e) => onTimeZoneChange(e.target.value)}
+          >
+            {zoneOptions.map((z) => (
+              <option key={z} value={z}>
+                {z === localZone && z !== DEFAULT_TIME_ZONE ? `${z} (local)` : z}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      {chartStyle && onChartStyleChange && (
+        <label className="flex items-center gap-2 text-sm">
+          Style
+          <select
+            className="rounded bg-ink-900 px-2 py-1 ring-1 ring-ink-800"
+            value={chartStyle}
+            onChange={(e) => onChartStyleChange(e.target.value as ChartStyle)}
+          >
+            {CHART_STYLES.map((st) => (
+              <option key={st} value={st}>
+                {CHART_STYLE_LABELS[st]}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      {oddsFormat && onOddsFormatChange && (
+        <label className="flex items-center gap-2 text-sm">
+          Odds
+          <select
+            className="rounded bg-ink-900 px-2 py-1 ring-1 ring-ink-800"
+            value={oddsFormat}
+            onChange={(e) => onOddsFormatChange(e.target.value as OddsFormat)}
+          >
+            {ODDS_FORMATS.map((f) => (
+              <option key={f} value={f}>
+                {ODDS_FORMAT_LABELS[f]}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      {model && onModelChange && (
+        <label className="flex items-center gap-2 text-sm">
+          Model
+          <select
+            className="rounded bg-ink-900 px-2 py-1 ring-1 ring-ink-800"
+            value={model}
+            onChange={(e) => onModelChange(e.target.value as PricingModel)}
+          >
+            {PRICING_MODELS.map((m) => (
+              <option key={m} value={m}>
+                {PRICING_MODEL_LABELS[m]}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      {indicators && onIndicatorsChange && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span>Overlays</span>
+          {INDICATOR_IDS.map((id) => {
+            const on = indicators.includes(id);
+            return (
+              <button
+                key={id}
+                type="button"
+                aria-pressed={on}
+                className={`rounded-md px-2 py-1 text-xs ring-1 ${on ? "bg-ink-700 text-ink-fg ring-ink-600" : "bg-ink-900 text-ink-300 ring-ink-800 hover:bg-ink-800"}`}
+                onClick={() =>
+                  onIndicatorsChange(INDICATOR_IDS.filter((x) => (x === id ? !on : indicators.includes(x))))
+                }
+              >
+                <span className="mr-1 inline-block h-2 w-2 rounded-full" style={{ background: INDICATORS[id].color }} />
+                {INDICATORS[id].label}
+              </button>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,128 @@
+"use client";
+import { useId, useState } from "react";
+import type { SearchResult } from "@/lib/types";
+import { useMarketSearch } from "@/hooks/useMarketSearch";
+import { formatOdds, type OddsDisplay } from "@/lib/format";
+
+const endDate = (iso?: string) => {
+  if (!iso) return undefined;
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? undefined : d.toLocaleDateString(undefined, { dateStyle: "medium" });
+};
+
+// Market input with a typeahead. Links and ids are typed or pasted as before; free text shows matching
+// events. ArrowUp / ArrowDown move through results, Enter picks the highlighted one (or submits the raw
+// input when nothing is highlighted), Escape closes the list.
+export function MarketSearch({
+  value,
+  onChange,
+  onSubmit,
+  onSelect,
+  placeholder,
+  className,
+  odds,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  onSelect: (result: SearchResult) => void;
+  placeholder?: string;
+  className?: string;
+  odds?: OddsDisplay; // price format for results (default: implied percent)
+}) {
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(-1);
+  const { results, loading } = useMarketSearch(value, { enabled: open });
+  const listId = useId();
+  const showList = open && (results.length > 0 || loading);
+
+  const pick = (r: SearchResult) => {
+    setOpen(false);
+    setActive(-1);
+    onSelect(r);
+  };
+
+  return (
+    <div className={`relative ${className ?? ""}`}>
+      <input
+        className="w-full rounded-md bg-ink-900 px-3 py-2 ring-1 ring-ink-800 outline-none focus:ring-accent"
+        placeholder={placeholder}
+        value={value}
+        role="combobox"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={showList && active >= 0 ? `${listId}-${active}` : undefined}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+          setActive(-1);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={(e) => {
+          if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+            if (!results.length) return;
+            e.preventDefault();
+            setOpen(true);
+            const step = e.key === "ArrowDown" ? 1 : -1;
+            // -1 (back in the input) is part of the cycle
+            setActive((i) => ((i + step + 1 + results.length + 1) % (results.length + 1)) - 1);
+          } else if (e.key === "Enter") {
+            if (showList && active >= 0 && results[active]) {
+              e.preventDefault();
+              pick(results[active]);
+            } else {
+              setOpen(false);
+              onSubmit();
+            }
+          } else if (e.key === "Escape") {
+            setOpen(false);
+            setActive(-1);
+          }
+        }}
+      />
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute inset-x-0 top-full z-40 mt-1 max-h-80 overflow-y-auto rounded-md bg-ink-900 py-1 text-sm shadow-lg ring-1 ring-ink-700"
+        >
+          {results.length === 0 && <li className="px-3 py-2 text-ink-400">Searching…</li>}
+          {results.map((r, i) => (
+            <li
+              key={r.slug}
+              id={`${listId}-${i}`}
+              role="option"
+              aria-selected={i === active}
+              className={`flex cursor-pointer items-center gap-3 px-3 py-2 ${i === active ? "bg-ink-800" : ""}`}
+              onMouseEnter={() => setActive(i)}
+              // mousedown so the pick lands before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(r);
+              }}
+            >
+              <span className="min-w-0 flex-1">
+                <span className={`block truncate ${r.closed ? "text-ink-500" : "text-ink-200"}`}>{r.title}</span>
+                <span className="block text-xs text-ink-500">
+                  {[
+                    r.closed ? "Closed" : endDate(r.endDateIso) && `Ends ${endDate(r.endDateIso)}`,
+                    r.marketCount > 1 && `${r.marketCount} markets`,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </span>
+              </span>
+              {r.price != null && (
+                <span className="shrink-0 text-ink-300 tabular-nums">{formatOdds(r.price, odds)}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default MarketSearch;
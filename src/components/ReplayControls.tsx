@@ -0,0 +1,95 @@
+"use client";
+import { REPLAY_SPEEDS, type ReplaySpeed } from "@/lib/replay";
+
+const fmtTime = (t: number) =>
+  new Date(t).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+export function ReplayControls({
+  active,
+  playing,
+  speed,
+  ts,
+  minTs,
+  maxTs,
+  onStart,
+  onStop,
+  onSeek,
+  onPlay,
+  onPause,
+  onSpeedChange,
+}: {
+  active: boolean;
+  playing: boolean;
+  speed: ReplaySpeed;
+  ts: number;
+  minTs: number | undefined; // earliest available history; replay is unavailable without it
+  maxTs: number;
+  onStart: (from: number) => void;
+  onStop: () => void;
+  onSeek: (ts: number) => void;
+  onPlay: () => void;
+  onPause: () => void;
+  onSpeedChange: (v: ReplaySpeed) => void;
+}) {
+  const btnClass =
+    "rounded-md bg-ink-900 px-3 py-1 text-sm text-ink-200 ring-1 ring-ink-700 hover:ring-ink-500 disabled:opacity-50";
+  if (!active) {
+    return (
+      <button
+        type="button"
+        className={btnClass}
+        disabled={minTs == null}
+        onClick={() => minTs != null && onStart(minTs)}
+      >
+        Replay history
+      </button>
+    );
+  }
+  const lo = Math.min(minTs ?? ts, ts);
+  return (
+    <div className="flex flex-wrap items-center gap-3 rounded-lg border border-amber-900/60 bg-amber-950/20 p-3 text-sm">
+      <button
+        type="button"
+        className={btnClass}
+        onClick={playing ? onPause : onPlay}
+        aria-label={playing ? "Pause" : "Play"}
+      >
+        {playing ? "❚❚" : "▶"}
+      </button>
+      <input
+        type="range"
+        className="min-w-[12rem] flex-1 accent-amber-500"
+        min={lo}
+        max={maxTs}
+        step={1000}
+        value={Math.min(ts, maxTs)}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        aria-label="Replay position"
+      />
+      <span className="font-mono text-xs text-amber-200 tabular-nums">{fmtTime(ts)}</span>
+      <select
+        className="rounded bg-ink-900 px-2 py-1 ring-1 ring-ink-800"
+        value={speed}
+        onChange={(e) => onSpeedChange(Number(e.target.value) as ReplaySpeed)}
+        aria-label="Replay speed"
+      >
+        {REPLAY_SPEEDS.map((s) => (
+          <option key={s} value={s}>
+            {s}×
+          </option>
+        ))}
+      </select>
+      <button type="button" className={btnClass} onClick={onStop}>
+        Back to live
+      </button>
+    </div>
+  );
+}
+
+export default ReplayControls;
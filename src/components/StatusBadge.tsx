@@ -1,16 +1,45 @@
 "use client";
+import { FEED_HEALTH_LABELS, type FeedHealth } from "@/lib/feedHealth";
+import { formatDuration } from "@/lib/format";
 
-export function StatusBadge({ delaySec, tvMode }: { delaySec: number; tvMode?: boolean }) {
+const HEALTH_TEXT: Record<FeedHealth, string> = {
+  connecting: "text-ink-400",
+  live: "text-up",
+  degraded: "text-amber-300",
+  stale: "text-down",
+  offline: "text-down",
+};
+
+export function StatusBadge({
+  delaySec,
+  tvMode,
+  replaySpeed,
+  modelLabel,
+  health,
+  staleMs,
+}: {
+  delaySec: number;
+  tvMode?: boolean;
+  replaySpeed?: number; // set while replaying history; replaces the live / delay readout
+  modelLabel?: string; // active probability model
+  health?: FeedHealth; // feed state; anything but "live" is called out next to the readout
+  staleMs?: number; // time since the last successful update, shown when stale / offline
+}) {
+  const dot = tvMode ? "h-3 w-3" : "h-2.5 w-2.5";
+  const healthy = health == null || health === "live";
+  const problem = health === "stale" || health === "offline";
   return (
     <div
-      className={`flex items-center gap-2 rounded-full bg-neutral-900 text-slate-300 ring-1 ring-neutral-800 ${tvMode ? "px-4 py-2 text-base sm:text-lg" : "px-3 py-1.5 text-xs sm:text-sm"}`}
+      className={`flex items-center gap-2 rounded-full bg-ink-900 text-ink-300 ring-1 ${problem ? "ring-down" : "ring-ink-800"} ${tvMode ? "px-4 py-2 text-base sm:text-lg" : "px-3 py-1.5 text-xs sm:text-sm"}`}
     >
-      {delaySec === 0 ? (
+      {replaySpeed != null ? (
+        <span className="text-amber-300">{`Replay · ${replaySpeed}×`}</span>
+      ) : delaySec === 0 ? (
         <>
-          <span aria-hidden="true" className={`relative flex ${tvMode ? "h-3 w-3" : "h-2.5 w-2.5"}`}>
-            <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-emerald-500/60" />
+          <span aria-hidden="true" className={`relative flex ${dot}`}>
+            {healthy && <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-up/60" />}
             <span
-              className={`relative inline-flex rounded-full bg-emerald-400 ${tvMode ? "h-3 w-3" : "h-2.5 w-2.5"}`}
+              className={`relative inline-flex rounded-full ${dot} ${healthy ? "bg-up" : problem ? "bg-down" : "bg-amber-400"}`}
             />
           </span>
           <span>Live</span>
@@ -18,6 +47,18 @@ export function StatusBadge({ delaySec, tvMode }: { delaySec: number; tvMode?: b
       ) : (
         <span>{`Delayed by ${Math.floor(delaySec / 60)}:${String(delaySec % 60).padStart(2, "0")}`}</span>
       )}
+      {replaySpeed == null && health && health !== "live" && (
+        <span className={`border-l border-ink-700 pl-2 font-semibold ${HEALTH_TEXT[health]}`} role="status">
+          {problem && staleMs != null
+            ? `${FEED_HEALTH_LABELS[health]} ${formatDuration(staleMs)}`
+            : FEED_HEALTH_LABELS[health]}
+        </span>
+      )}
+      {modelLabel && (
+        <span className="border-l border-ink-700 pl-2 text-ink-400" title="Probability model">
+          {modelLabel}
+        </span>
+      )}
     </div>
   );
 }
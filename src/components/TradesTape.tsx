@@ -0,0 +1,75 @@
+"use client";
+import type { Trade } from "@/lib/types";
+import { formatOdds, type OddsDisplay } from "@/lib/format";
+
+const timeFmt = (t: number) =>
+  new Date(t).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit", hour12: false });
+const sizeFmt = (n: number) => (n >= 1000 ? `${(n / 1000).toFixed(1)}k` : n.toFixed(0));
+
+export function TradesTape({
+  trades,
+  nowTs,
+  delayMs,
+  limit,
+  compact,
+  tvMode,
+  odds,
+}: {
+  trades: Trade[]; // newest first
+  nowTs: number;
+  delayMs: number;
+  limit?: number;
+  compact?: boolean; // single-line ticker for TV mode
+  tvMode?: boolean;
+  odds?: OddsDisplay; // price format (default: implied percent)
+}) {
+  // Spoiler-safe: only fills at or before the display time.
+  const displayTs = nowTs - delayMs;
+  const visible = trades.filter((tr) => tr.t <= displayTs).slice(0, limit ?? (compact ? 8 : 20));
+
+  if (compact) {
+    return (
+      <div
+        className={`flex items-center gap-4 overflow-hidden whitespace-nowrap text-ink-300 ${tvMode ? "text-lg sm:text-xl" : "text-sm"}`}
+      >
+        {visible.length === 0 && <span className="text-ink-500">No trades yet</span>}
+        {visible.map((tr) => (
+          <span key={tr.id} className="inline-flex items-baseline gap-1.5">
+            <span className={tr.side === "BUY" ? "text-up" : "text-down"}>{tr.side === "BUY" ? "▲" : "▼"}</span>
+            <span className="font-semibold">{formatOdds(tr.price, odds)}</span>
+            <span className="text-ink-500">×{sizeFmt(tr.size)}</span>
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border border-ink-800">
+      <div className="grid grid-cols-4 gap-2 border-b border-ink-800 px-3 py-1.5 text-xs text-ink-500">
+        <span>Time</span>
+        <span>Side</span>
+        <span className="text-right">Price</span>
+        <span className="text-right">Size</span>
+      </div>
+      {visible.length === 0 ? (
+        <div className="px-3 py-3 text-center text-xs text-ink-500">
+          {trades.length ? "Trades available after delay" : "No trades yet"}
+        </div>
+      ) : (
+        <ul className="max-h-64 overflow-y-auto text-sm tabular-nums">
+          {visible.map((tr) => (
+            <li key={tr.id} className="grid grid-cols-4 gap-2 px-3 py-1 odd:bg-ink-950">
+              <span className="text-ink-400">{timeFmt(tr.t)}</span>
+              <span className={tr.side === "BUY" ? "text-up" : "text-down"}>{tr.side}</span>
+              <span className="text-right">{formatOdds(tr.price, odds)}</span>
+              <span className="text-right text-ink-300">{sizeFmt(tr.size)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default TradesTape;
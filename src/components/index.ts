@@ -1,6 +1,15 @@
+export { default as AlertsPanel } from "./AlertsPanel";
 export { default as Chart } from "./Chart";
 export { default as BigPercent } from "./BigPercent";
+export { default as BookSummary } from "./BookSummary";
+export { default as BrandLogo } from "./BrandLogo";
+export { default as DepthChart } from "./DepthChart";
+export { default as ExportMenu } from "./ExportMenu";
+export { default as FeedHealthBanner } from "./FeedHealthBanner";
 export { default as Header } from "./Header";
 export { default as MarketControls } from "./MarketControls";
+export { default as MarketSearch } from "./MarketSearch";
+export { default as ReplayControls } from "./ReplayControls";
 export { default as StatusBadge } from "./StatusBadge";
+export { default as TradesTape } from "./TradesTape";
 export { default as TVHint } from "./TVHint";
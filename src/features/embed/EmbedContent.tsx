@@ -0,0 +1,163 @@
+"use client";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import type { MarketRef } from "@/lib/types";
+import { parseEmbed, type EmbedWidget } from "@/lib/embed";
+import { useMarketWS } from "@/lib/useMarketWS";
+import { findOutcome, povLabels } from "@/lib/outcomes";
+import { feedHealth } from "@/lib/feedHealth";
+import { isLineStyle, parseChartStyle } from "@/lib/chartStyle";
+import { parseTheme, themeStyle } from "@/lib/theme";
+import { initialViewMs } from "@/lib/backfill";
+import { useCandles, useDelayedPoints, useMarketHistory, useResolveMarket } from "@/hooks";
+import { BigPercent, BrandLogo, Chart, StatusBadge } from "@/components";
+
+const ALIGN_CLASS = {
+  left: "items-start text-left",
+  center: "items-center text-center",
+  right: "items-end text-right",
+};
+
+// Height of an element, so the chart can take whatever space the other widgets leave. A callback ref,
+// since the chart box only mounts once the market has resolved.
+function useHeight() {
+  const [el, setEl] = useState<HTMLDivElement | null>(null);
+  const [height, setHeight] = useState(0);
+  useEffect(() => {
+    if (!el) return;
+    const ro = new ResizeObserver((entries) => setHeight(Math.floor(entries[0]?.contentRect.height ?? 0)));
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, [el]);
+  return [setEl, height] as const;
+}
+
+// Overlay for OBS browser sources: only the widgets named in `show=`, no page chrome, all settings
+// from the query string (see lib/embed). Uses the same delayed display time as the main view.
+export default function EmbedContent() {
+  const searchParams = useSearchParams();
+  const currentQS = searchParams?.toString() ?? "";
+  const config = useMemo(() => parseEmbed(new URLSearchParams(currentQS)), [currentQS]);
+  const theme = useMemo(() => parseTheme(new URLSearchParams(currentQS)), [currentQS]);
+  const chartStyle = parseChartStyle(new URLSearchParams(currentQS).get("style")) ?? "candles";
+
+  const [nowTs, setNowTs] = useState(0);
+  useEffect(() => {
+    setNowTs(Date.now());
+    const id = setInterval(() => setNowTs(Date.now()), 250);
+    return () => clearInterval(id);
+  }, []);
+
+  // The page background and root font size belong to the layout; override them while the overlay is up.
+  useEffect(() => {
+    const html = document.documentElement;
+    const prev = { bg: document.body.style.background, overflow: html.style.overflow, fontSize: html.style.fontSize };
+    document.body.style.background = config.background;
+    html.style.overflow = "hidden";
+    html.style.fontSize = `${16 * config.scale}px`;
+    return () => {
+      document.body.style.background = prev.bg;
+      html.style.overflow = prev.overflow;
+      html.style.fontSize = prev.fontSize;
+    };
+  }, [config.background, config.scale]);
+
+  const [market, setMarket] = useState<MarketRef | null>(null);
+  const onResolved = useCallback((m: MarketRef) => setMarket(m), []);
+  const { error } = useResolveMarket({ marketUrl: config.url, onResolved, resolveSlugs: true });
+
+  const outcome = findOutcome(market, config.outcome);
+  const { yesLabel, noLabel } = povLabels(market, outcome);
+  const delayMs = config.delaySec * 1000;
+
+  const { seriesYes, seriesNo, stats } = useMarketWS(outcome?.yesTokenId, outcome?.noTokenId, {
+    model: config.model,
+  });
+  const health = feedHealth(stats, nowTs);
+  const staleMs = stats.lastOkAt != null ? nowTs - stats.lastOkAt : undefined;
+  const { backfillYes, backfillNo } = useMarketHistory(outcome, config.tf);
+  const activeSeries = config.pov === "YES" ? seriesYes : seriesNo;
+  const activeBackfill = config.pov === "YES" ? backfillYes : backfillNo;
+  const candles = useCandles(activeSeries, activeBackfill, nowTs, delayMs, config.tf, undefined, config.timeZone);
+  const points = useDelayedPoints(activeSeries, activeBackfill, nowTs, delayMs, isLineStyle(chartStyle));
+  const [chartBoxRef, chartBoxHeight] = useHeight();
+
+  const title = market
+    ? market.outcomes.length > 1 && outcome
+      ? `${market.question} · ${outcome.label}`
+      : market.question
+    : "";
+  const row = config.layout === "row";
+
+  const widget = (w: EmbedWidget) => {
+    switch (w) {
+      case "logo":
+        return theme.logo ? <BrandLogo key={w} src={theme.logo} className="h-12" /> : null;
+      case "question":
+        return (
+          <div key={w} className={`line-clamp-2 text-2xl font-semibold text-ink-fg ${row ? "max-w-[40%]" : ""}`}>
+            {title}
+          </div>
+        );
+      case "percent":
+        return (
+          <div key={w} className="text-ink-fg">
+            <BigPercent
+              series={activeSeries}
+              backfill={activeBackfill}
+              nowTs={nowTs}
+              delayMs={delayMs}
+              label={config.pov === "YES" ? yesLabel : noLabel}
+              odds={config.odds}
+            />
+          </div>
+        );
+      case "status":
+        return <StatusBadge key={w} delaySec={config.delaySec} health={health} staleMs={staleMs} />;
+      case "chart":
+        return (
+          <div
+            key={w}
+            ref={chartBoxRef}
+            className={row ? "min-w-0 flex-1 self-stretch" : `w-full ${config.chartHeight ? "" : "min-h-0 flex-1"}`}
+            style={config.chartHeight ? { height: config.chartHeight } : undefined}
+          >
+            <Chart
+              candles={candles}
+              points={points}
+              chartStyle={chartStyle}
+              height={config.chartHeight ?? chartBoxHeight}
+              fontSize={Math.round(12 * config.scale)}
+              frameless
+              theme={theme}
+              initialWindowMs={initialViewMs(config.tf)}
+              timeZone={config.timeZone}
+              odds={config.odds}
+            />
+          </div>
+        );
+    }
+  };
+
+  return (
+    <main
+      className={`flex gap-3 overflow-hidden p-3 ${row ? "flex-row items-center" : `flex-col ${ALIGN_CLASS[config.align]}`}`}
+      style={{
+        ...themeStyle(theme),
+        width: config.width ?? "100vw",
+        height: config.height ?? "100vh",
+        background: config.background,
+      }}
+    >
+      {error && !market ? (
+        <div className="rounded-md bg-red-950/80 px-3 py-2 text-sm text-red-200">{error}</div>
+      ) : !config.url ? (
+        <div className="rounded-md bg-ink-bg/70 px-3 py-2 text-sm text-ink-200">
+          Add <code>?url=</code> with a Polymarket link to this overlay.
+        </div>
+      ) : (
+        market && config.widgets.map(widget)
+      )}
+    </main>
+  );
+}
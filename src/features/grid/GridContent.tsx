@@ -0,0 +1,180 @@
+"use client";
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { parseTheme, themeQuery, themeStyle } from "@/lib/theme";
+import { DEFAULT_TIME_ZONE, parseTimeZone } from "@/lib/timeframes";
+import { parseOdds } from "@/lib/format";
+import { DEFAULT_TILE, GRID_LAYOUTS, parseGrid, writeGrid, type GridLayout, type TileConfig } from "@/lib/grid";
+import { useWakeLock, useTvShortcuts } from "@/hooks";
+import { Header, TVHint } from "@/components";
+import MarketTile from "./MarketTile";
+
+export default function GridContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const currentQS = searchParams?.toString() ?? "";
+  const themeQS = themeQuery(new URLSearchParams(currentQS));
+  const theme = useMemo(() => parseTheme(new URLSearchParams(themeQS)), [themeQS]);
+  // One zone for the whole grid; `tz=` is carried over from the single view's "Open in grid" link
+  const timeZone = parseTimeZone(new URLSearchParams(currentQS).get("tz")) ?? DEFAULT_TIME_ZONE;
+  // Odds format is grid-wide too; memoized so tile charts don't re-apply their formatter every tick
+  const odds = useMemo(() => parseOdds(new URLSearchParams(currentQS)), [currentQS]);
+  const [mounted, setMounted] = useState(false);
+  const [nowTs, setNowTs] = useState(0);
+  useEffect(() => {
+    setMounted(true);
+    setNowTs(Date.now());
+    const id = setInterval(() => setNowTs(Date.now()), 250);
+    return () => clearInterval(id);
+  }, []);
+  const [layout, setLayout] = useState<GridLayout>("2x2");
+  const [tiles, setTiles] = useState<TileConfig[]>([]);
+  const [newUrl, setNewUrl] = useState("");
+  const [tvMode, setTvMode] = useState(false);
+  const [shareStatus, setShareStatus] = useState<"idle" | "copied" | "failed">("idle");
+  useWakeLock(tvMode);
+  const { tvHintRender, tvHintVisible } = useTvShortcuts(tvMode, setTvMode);
+
+  // Sync state from URL params
+  useEffect(() => {
+    if (!mounted) return;
+    const qs = new URLSearchParams(currentQS);
+    const parsed = parseGrid(qs);
+    setLayout((prev) => (prev !== parsed.layout ? parsed.layout : prev));
+    setTiles((prev) => (JSON.stringify(prev) !== JSON.stringify(parsed.tiles) ? parsed.tiles : prev));
+
+    const mode = (qs.get("mode") ?? "").toLowerCase();
+    const tv = mode === "tv" || mode === "1" || mode === "true";
+    setTvMode((prev) => (prev !== tv ? tv : prev));
+  }, [mounted, currentQS]);
+
+  // Push state to URL params (without reload)
+  useEffect(() => {
+    if (!mounted) return;
+    const params = new URLSearchParams(currentQS);
+    writeGrid(params, layout, tiles);
+    if (tvMode) params.set("mode", "tv");
+    else params.delete("mode");
+    const next = params.toString();
+    if (next !== currentQS) {
+      const t = setTimeout(() => router.replace(`${pathname}?${next}`, { scroll: false }), 300);
+      return () => clearTimeout(t);
+    }
+  }, [mounted, layout, tiles, tvMode, pathname, router, currentQS]);
+
+  const { cols, max } = GRID_LAYOUTS[layout];
+  const chartHeight = cols === 3 ? (tvMode ? 200 : 160) : tvMode ? 300 : 220;
+
+  const addTile = () => {
+    const url = newUrl.trim();
+    if (!url || tiles.length >= max) return;
+    setTiles((prev) => [...prev, { url, ...DEFAULT_TILE }]);
+    setNewUrl("");
+  };
+  const updateTile = (idx: number, patch: Partial<TileConfig>) =>
+    setTiles((prev) => prev.map((t, i) => (i === idx ? { ...t, ...patch } : t)));
+  const removeTile = (idx: number) => setTiles((prev) => prev.filter((_, i) => i !== idx));
+  const changeLayout = (next: GridLayout) => {
+    setLayout(next);
+    setTiles((prev) => prev.slice(0, GRID_LAYOUTS[next].max));
+  };
+
+  // Keys stay stable when earlier tiles are removed as long as URLs differ.
+  const seen = new Map<string, number>();
+  const keys = tiles.map((t) => {
+    const n = seen.get(t.url) ?? 0;
+    seen.set(t.url, n + 1);
+    return `${t.url}#${n}`;
+  });
+
+  return (
+    <main className="min-h-screen bg-ink-bg text-ink-200" style={themeStyle(theme)}>
+      <div className={`mx-auto ${tvMode ? "max-w-none" : "max-w-7xl"} px-4 py-6`}>
+        <Header
+          title="Polymarket Viewer · Grid"
+          compact={tvMode}
+          logo={theme.logo}
+          tvMode={tvMode}
+          onToggleTv={setTvMode}
+          shareStatus={shareStatus}
+          onShare={async () => {
+            try {
+              await navigator.clipboard.writeText(window.location.href);
+              setShareStatus("copied");
+              setTimeout(() => setShareStatus("idle"), 1200);
+            } catch {
+              setShareStatus("failed");
+              setTimeout(() => setShareStatus("idle"), 1200);
+            }
+          }}
+        />
+        <TVHint render={tvMode && tvHintRender} visible={tvHintVisible} />
+        {!tvMode && (
+          <div className="mt-4 flex flex-wrap items-center gap-3">
+            <input
+              className="min-w-[16rem] flex-1 rounded-md bg-ink-900 px-3 py-2 ring-1 ring-ink-800 outline-none focus:ring-accent"
+              placeholder={
+                tiles.length >= max ? `Grid is full (${max} markets)` : "Paste Polymarket URL or slug to add a market"
+              }
+              value={newUrl}
+              disabled={tiles.length >= max}
+              onChange={(e) => setNewUrl(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") addTile();
+              }}
+            />
+            <button
+              type="button"
+              className="rounded-md bg-ink-900 px-3 py-2 text-sm text-ink-200 ring-1 ring-ink-700 hover:ring-ink-500 disabled:opacity-50"
+              onClick={addTile}
+              disabled={!newUrl.trim() || tiles.length >= max}
+            >
+              Add
+            </button>
+            <label className="flex items-center gap-2 text-sm">
+              Layout
+              <select
+                className="rounded bg-ink-900 px-2 py-1 ring-1 ring-ink-800"
+                value={layout}
+                onChange={(e) => changeLayout(e.target.value as GridLayout)}
+              >
+                {(Object.keys(GRID_LAYOUTS) as GridLayout[]).map((l) => (
+                  <option key={l} value={l}>
+                    {l}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <Link href="/" className="text-sm text-ink-400 underline-offset-4 hover:text-ink-200 hover:underline">
+              Single view
+            </Link>
+          </div>
+        )}
+        {mounted && tiles.length === 0 && (
+          <div className="mt-10 text-center text-sm text-ink-400">
+            Add up to {max} markets to build a {layout} grid.
+          </div>
+        )}
+        <div className="mt-4 grid gap-3" style={{ gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))` }}>
+          {mounted &&
+            tiles.map((t, i) => (
+              <MarketTile
+                key={keys[i]}
+                config={t}
+                nowTs={nowTs}
+                tvMode={tvMode}
+                chartHeight={chartHeight}
+                theme={theme}
+                timeZone={timeZone}
+                odds={odds}
+                onChange={(patch) => updateTile(i, patch)}
+                onRemove={() => removeTile(i)}
+              />
+            ))}
+        </div>
+      </div>
+    </main>
+  );
+}
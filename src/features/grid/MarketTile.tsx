@@ -0,0 +1,131 @@
+"use client";
+import { useCallback, useState } from "react";
+import type { MarketRef } from "@/lib/types";
+import type { TileConfig } from "@/lib/grid";
+import type { Theme } from "@/lib/theme";
+import type { OddsDisplay } from "@/lib/format";
+import { useMarketWS } from "@/lib/useMarketWS";
+import { findOutcome, outcomeKey, povLabels } from "@/lib/outcomes";
+import { useCandles, useMarketHistory, useResolveMarket } from "@/hooks";
+import { feedHealth } from "@/lib/feedHealth";
+import { initialViewMs } from "@/lib/backfill";
+import { Chart, BigPercent, FeedHealthBanner, MarketControls, StatusBadge } from "@/components";
+
+export function MarketTile({
+  config,
+  nowTs,
+  tvMode,
+  chartHeight,
+  theme,
+  timeZone,
+  odds,
+  onChange,
+  onRemove,
+}: {
+  config: TileConfig;
+  nowTs: number;
+  tvMode: boolean;
+  chartHeight: number;
+  theme?: Theme;
+  timeZone?: string;
+  odds?: OddsDisplay;
+  onChange: (patch: Partial<TileConfig>) => void;
+  onRemove: () => void;
+}) {
+  const [market, setMarket] = useState<MarketRef | null>(null);
+  // Stable callback: an inline one would restart the resolve debounce on every clock tick.
+  const onResolved = useCallback((m: MarketRef) => setMarket(m), []);
+  const { resolving, error } = useResolveMarket({ marketUrl: config.url, onResolved, resolveSlugs: true });
+
+  const outcome = findOutcome(market, config.outcome);
+  const { yesLabel, noLabel } = povLabels(market, outcome);
+  const delayMs = config.delaySec * 1000;
+
+  const { seriesYes, seriesNo, stats } = useMarketWS(outcome?.yesTokenId, outcome?.noTokenId);
+  const health = feedHealth(stats, nowTs);
+  const staleMs = stats.lastOkAt != null ? nowTs - stats.lastOkAt : undefined;
+  const { backfillYes, backfillNo, loadOlder } = useMarketHistory(outcome, config.tf);
+  const activeSeries = config.pov === "YES" ? seriesYes : seriesNo;
+  const activeBackfill = config.pov === "YES" ? backfillYes : backfillNo;
+  const candles = useCandles(activeSeries, activeBackfill, nowTs, delayMs, config.tf, undefined, timeZone);
+
+  const title = market
+    ? market.outcomes.length > 1 && outcome
+      ? `${market.question} · ${outcome.label}`
+      : market.question
+    : config.url;
+
+  return (
+    <div className="flex min-w-0 flex-col rounded-lg bg-ink-950 p-3 ring-1 ring-ink-800">
+      <div className="flex items-start justify-between gap-2">
+        <div className={`line-clamp-2 font-semibold text-ink-300 ${tvMode ? "text-base sm:text-lg" : "text-sm"}`}>
+          {title}
+        </div>
+        {!tvMode && (
+          <button
+            type="button"
+            className="shrink-0 rounded-md px-2 py-0.5 text-xs text-ink-400 ring-1 ring-ink-800 hover:text-ink-200 hover:ring-ink-600"
+            onClick={onRemove}
+            aria-label="Remove tile"
+            title="Remove tile"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+      {resolving && !market && <div className="mt-2 text-xs text-ink-400">Resolving...</div>}
+      {error && (
+        <div className="mt-2 rounded-md border border-red-800 bg-red-950 px-2 py-1 text-xs text-red-200">{error}</div>
+      )}
+      {market && (
+        <>
+          <MarketControls
+            tvMode={tvMode}
+            outcomes={market.outcomes.map((o) => ({
+              key: outcomeKey(o),
+              label: o.closed ? `${o.label} (closed)` : o.label,
+            }))}
+            outcomeKey={outcome ? outcomeKey(outcome) : undefined}
+            onOutcomeChange={(key) => onChange({ outcome: key })}
+            pov={config.pov}
+            yesLabel={yesLabel}
+            noLabel={noLabel}
+            onPovChange={(pov) => onChange({ pov })}
+            delaySec={config.delaySec}
+            onDelayChange={(d) => onChange({ delaySec: Math.max(0, Math.min(600, d)) })}
+            tf={config.tf}
+            onTfChange={(tf) => onChange({ tf })}
+          />
+          <div className="mt-2 flex">
+            <StatusBadge delaySec={config.delaySec} tvMode={tvMode} health={health} staleMs={staleMs} />
+          </div>
+          <FeedHealthBanner health={health} staleMs={staleMs} tvMode={tvMode} compact />
+          <BigPercent
+            series={activeSeries}
+            nowTs={nowTs}
+            delayMs={delayMs}
+            label={config.pov === "YES" ? yesLabel : noLabel}
+            tvMode={tvMode}
+            odds={odds}
+            compact
+          />
+          <div className="mt-auto">
+            <Chart
+              candles={candles}
+              height={chartHeight}
+              tvMode={tvMode}
+              theme={theme}
+              seriesKey={`${config.pov === "YES" ? outcome?.yesTokenId : outcome?.noTokenId}:${config.tf}`}
+              initialWindowMs={initialViewMs(config.tf)}
+              onNeedOlder={loadOlder}
+              timeZone={timeZone}
+              odds={odds}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default MarketTile;
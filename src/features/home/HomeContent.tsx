@@ -1,18 +1,59 @@
 "use client";
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
 import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import type { MarketRef } from "@/lib/types";
 import { useMarketWS } from "@/lib/useMarketWS";
-import { TIMEFRAME_SET, type TF } from "@/lib/timeframes";
-import { formatDuration } from "@/lib/format";
-import { useCandles, useWakeLock, useTvShortcuts, useMarketHistory, useResolveMarket } from "@/hooks";
-import { Chart, BigPercent, Header, MarketControls, StatusBadge, TVHint } from "@/components";
+import { DEFAULT_TIME_ZONE, parseTf, parseTimeZone, type TF } from "@/lib/timeframes";
+import { DEFAULT_ODDS, formatDuration, parseOdds, writeOdds, type OddsDisplay } from "@/lib/format";
+import { feedHealth } from "@/lib/feedHealth";
+import { findOutcome, outcomeKey, povLabels } from "@/lib/outcomes";
+import { writeGrid } from "@/lib/grid";
+import { parseIndicators, type IndicatorId } from "@/lib/indicators";
+import { isLineStyle, parseChartStyle, type ChartStyle } from "@/lib/chartStyle";
+import { mergeBackfill } from "@/lib/buffer";
+import { buildExport } from "@/lib/export";
+import { initialViewMs } from "@/lib/backfill";
+import { DEFAULT_PRICING_MODEL, PRICING_MODEL_LABELS, parsePricingModel, type PricingModel } from "@/lib/pricing";
+import { formatReplayStart, parseReplaySpeed, parseReplayStart } from "@/lib/replay";
+import { parseTheme, themeQuery, themeStyle } from "@/lib/theme";
+import {
+  useAlerts,
+  useCandles,
+  useDelayedPoints,
+  useWakeLock,
+  useTvShortcuts,
+  useMarketHistory,
+  useOrderBook,
+  useReplay,
+  useResolveMarket,
+  useTrades,
+} from "@/hooks";
+import {
+  AlertsPanel,
+  Chart,
+  BigPercent,
+  BookSummary,
+  DepthChart,
+  ExportMenu,
+  FeedHealthBanner,
+  Header,
+  MarketControls,
+  MarketSearch,
+  ReplayControls,
+  StatusBadge,
+  TradesTape,
+  TVHint,
+} from "@/components";
 
 export default function HomeContent() {
   const router = useRouter();
   const pathname = usePathname();
   const searchParams = useSearchParams();
   const currentQS = searchParams?.toString() ?? "";
+  // Theme comes straight from the URL (no UI for it); keyed on its own params so the chart keeps one object
+  const themeQS = themeQuery(new URLSearchParams(currentQS));
+  const theme = useMemo(() => parseTheme(new URLSearchParams(themeQS)), [themeQS]);
   const [mounted, setMounted] = useState(false);
   const [nowTs, setNowTs] = useState(0);
   useEffect(() => {
@@ -25,18 +66,52 @@ export default function HomeContent() {
   const [market, setMarket] = useState<MarketRef | null>(null);
   const [delaySec, setDelaySec] = useState(30);
   const [tf, setTf] = useState<TF>(5);
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE);
   const [pov, setPov] = useState<"YES" | "NO">("YES");
+  const [selectedOutcome, setSelectedOutcome] = useState("");
+  const [indicators, setIndicators] = useState<IndicatorId[]>([]);
+  const [chartStyle, setChartStyle] = useState<ChartStyle>("candles");
+  const [model, setModel] = useState<PricingModel>(DEFAULT_PRICING_MODEL);
+  const [odds, setOdds] = useState<OddsDisplay>(DEFAULT_ODDS);
   const delayMs = delaySec * 1000;
   const [tvMode, setTvMode] = useState(false);
   const [shareStatus, setShareStatus] = useState<"idle" | "copied" | "failed">("idle");
   useWakeLock(tvMode);
   const { tvHintRender, tvHintVisible } = useTvShortcuts(tvMode, setTvMode);
+  const replay = useReplay(nowTs, delayMs);
+  const { applyParams: applyReplayParams } = replay;
+  // Display clock: now - delay live, or the virtual replay time (held at or before now - delay by useReplay).
+  const viewTs = replay.active ? replay.ts : nowTs;
+  const viewDelayMs = replay.active ? 0 : delayMs;
 
-  const { seriesYes, seriesNo } = useMarketWS(market?.yesTokenId, market?.noTokenId);
-  const { backfillYes, backfillNo } = useMarketHistory(market, tf);
+  const outcome = findOutcome(market, selectedOutcome);
+  const { yesLabel, noLabel } = povLabels(market, outcome);
+
+  const {
+    seriesYes,
+    seriesNo,
+    tobHistory,
+    stats: feedStats,
+  } = useMarketWS(outcome?.yesTokenId, outcome?.noTokenId, { model });
+  const health = feedHealth(feedStats, nowTs);
+  const staleMs = feedStats.lastOkAt != null ? nowTs - feedStats.lastOkAt : undefined;
+  const { backfillYes, backfillNo, loadOlder } = useMarketHistory(outcome, tf);
   const activeSeries = pov === "YES" ? seriesYes : seriesNo;
   const activeBackfill = pov === "YES" ? backfillYes : backfillNo;
-  const candles = useCandles(activeSeries, activeBackfill, nowTs, delayMs, tf);
+  const activeTokenId = pov === "YES" ? outcome?.yesTokenId : outcome?.noTokenId;
+  const { snapshots: bookSnapshots } = useOrderBook(activeTokenId, !tvMode);
+  const { trades } = useTrades(outcome?.conditionId || undefined, activeTokenId);
+  const fills = useMemo(() => trades.map((tr) => ({ t: tr.t, p: tr.price, size: tr.size })), [trades]);
+  const candles = useCandles(activeSeries, activeBackfill, viewTs, viewDelayMs, tf, fills, timeZone);
+  const alerts = useAlerts({
+    series: activeSeries,
+    nowTs,
+    delayMs,
+    storageKey: activeTokenId,
+    label: pov === "YES" ? yesLabel : noLabel,
+  });
+  const points = useDelayedPoints(activeSeries, activeBackfill, viewTs, viewDelayMs, isLineStyle(chartStyle));
+  const historyStartTs = activeBackfill[0]?.t ?? activeSeries.toArray()[0]?.t;
 
   const { resolving, error, resolveNow } = useResolveMarket({
     marketUrl,
@@ -44,6 +119,11 @@ export default function HomeContent() {
     onResolved: (m, resolvedUrl) => {
       setMarket(m);
       lastResolvedRef.current = resolvedUrl;
+      // A link to one market of an event selects it, unless the current selection belongs to this event
+      const preferred = m.selectedOutcome;
+      if (preferred) {
+        setSelectedOutcome((prev) => (m.outcomes.some((o) => outcomeKey(o) === prev) ? prev : preferred));
+      }
     },
   });
 
@@ -63,21 +143,38 @@ export default function HomeContent() {
       setDelaySec((prev) => (prev !== clamped ? clamped : prev));
     }
 
-    const tfStr = qs.get("tf");
-    const tfNum = tfStr != null ? Number.parseInt(tfStr) : NaN;
-    if (!Number.isNaN(tfNum) && TIMEFRAME_SET.has(tfNum)) {
-      setTf((prev) => (prev !== tfNum ? (tfNum as TF) : prev));
-    }
+    const tfParam = parseTf(qs.get("tf"));
+    if (tfParam != null) setTf((prev) => (prev !== tfParam ? tfParam : prev));
+
+    const tz = parseTimeZone(qs.get("tz")) ?? DEFAULT_TIME_ZONE;
+    setTimeZone((prev) => (prev !== tz ? tz : prev));
 
     const povStr = (qs.get("pov") ?? "").toUpperCase();
     if (povStr === "YES" || povStr === "NO") {
       setPov((prev) => (prev !== povStr ? (povStr as "YES" | "NO") : prev));
     }
 
+    const ind = parseIndicators(qs.get("ind"));
+    setIndicators((prev) => (prev.join(",") !== ind.join(",") ? ind : prev));
+
+    const styleParam = parseChartStyle(qs.get("style"));
+    if (styleParam) setChartStyle((prev) => (prev !== styleParam ? styleParam : prev));
+
+    const modelParam = parsePricingModel(qs.get("model"));
+    if (modelParam) setModel((prev) => (prev !== modelParam ? modelParam : prev));
+
+    const oddsParam = parseOdds(qs);
+    setOdds((prev) => (prev.format !== oddsParam.format || prev.precision !== oddsParam.precision ? oddsParam : prev));
+
+    applyReplayParams(parseReplayStart(qs.get("replay")), parseReplaySpeed(qs.get("speed")));
+
+    const outcomeStr = qs.get("outcome") ?? "";
+    setSelectedOutcome((prev) => (prev !== outcomeStr ? outcomeStr : prev));
+
     const mode = (qs.get("mode") ?? "").toLowerCase();
     const tv = mode === "tv" || mode === "1" || mode === "true";
     setTvMode((prev) => (prev !== tv ? tv : prev));
-  }, [mounted, currentQS]);
+  }, [mounted, currentQS, applyReplayParams]);
 
   // Push state to URL params (without reload)
   useEffect(() => {
@@ -88,7 +185,22 @@ export default function HomeContent() {
     else params.delete("url");
     params.set("delay", String(delaySec));
     params.set("tf", String(tf));
+    if (timeZone !== DEFAULT_TIME_ZONE) params.set("tz", timeZone);
+    else params.delete("tz");
     params.set("pov", pov.toLowerCase());
+    if (chartStyle !== "candles") params.set("style", chartStyle);
+    else params.delete("style");
+    if (model !== DEFAULT_PRICING_MODEL) params.set("model", model);
+    else params.delete("model");
+    writeOdds(params, odds);
+    if (indicators.length) params.set("ind", indicators.join(","));
+    else params.delete("ind");
+    if (market && market.outcomes.length > 1 && outcome) params.set("outcome", outcomeKey(outcome));
+    else params.delete("outcome");
+    if (replay.active) params.set("replay", formatReplayStart(replay.anchorTs));
+    else params.delete("replay");
+    if (replay.active && replay.speed !== 1) params.set("speed", String(replay.speed));
+    else params.delete("speed");
     if (tvMode) params.set("mode", "tv");
     else params.delete("mode");
     const next = params.toString();
@@ -100,7 +212,27 @@ export default function HomeContent() {
       }, 300);
       return () => clearTimeout(t);
     }
-  }, [mounted, marketUrl, delaySec, tf, pov, tvMode, pathname, router, currentQS]);
+  }, [
+    mounted,
+    marketUrl,
+    delaySec,
+    tf,
+    timeZone,
+    pov,
+    chartStyle,
+    model,
+    odds,
+    indicators,
+    market,
+    outcome,
+    replay.active,
+    replay.anchorTs,
+    replay.speed,
+    tvMode,
+    pathname,
+    router,
+    currentQS,
+  ]);
 
   // Autoload market if URL contains one
   const autoLoadedRef = useRef(false);
@@ -116,19 +248,22 @@ export default function HomeContent() {
 
   if (!mounted) {
     return (
-      <main className="min-h-screen bg-black text-slate-200">
+      <main className="min-h-screen bg-ink-bg text-ink-200" style={themeStyle(theme)}>
         <div className="mx-auto max-w-4xl px-4 py-6">
           <h1 className="text-2xl font-semibold">Polymarket Viewer</h1>
           <div className="mt-4 flex items-center gap-2">
             <input
-              className="flex-1 rounded-md bg-neutral-900 px-3 py-2 ring-1 ring-neutral-800 outline-none"
-              placeholder="Paste Polymarket URL (event or market)"
+              className="flex-1 rounded-md bg-ink-900 px-3 py-2 ring-1 ring-ink-800 outline-none"
+              placeholder="Paste Polymarket URL, slug, condition ID or token ID"
               value={marketUrl}
               onChange={(e) => setMarketUrl(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") resolveNow();
+              }}
             />
             {resolving && (
-              <span className="inline-flex items-center gap-2 text-xs text-slate-300">
-                <span className="h-4 w-4 animate-spin rounded-full border-2 border-slate-500 border-t-transparent" />
+              <span className="inline-flex items-center gap-2 text-xs text-ink-300">
+                <span className="h-4 w-4 animate-spin rounded-full border-2 border-ink-500 border-t-transparent" />
                 Resolving...
               </span>
             )}
@@ -139,11 +274,18 @@ export default function HomeContent() {
   }
 
   return (
-    <main className="min-h-screen bg-black text-slate-200">
+    <main className="min-h-screen bg-ink-bg text-ink-200" style={themeStyle(theme)}>
       <div className={`mx-auto ${tvMode ? "max-w-6xl" : "max-w-4xl"} px-4 py-6`}>
         <Header
-          title={tvMode && market ? market.question || "" : "Polymarket Viewer"}
+          title={
+            tvMode && market
+              ? market.outcomes.length > 1 && outcome
+                ? `${market.question} · ${outcome.label}`
+                : market.question || ""
+              : "Polymarket Viewer"
+          }
           compact={Boolean(tvMode && market)}
+          logo={theme.logo}
           tvMode={tvMode}
           onToggleTv={setTvMode}
           shareStatus={shareStatus}
@@ -159,17 +301,32 @@ export default function HomeContent() {
           }}
         />
         <TVHint render={tvMode && tvHintRender} visible={tvHintVisible} />
+        {alerts.lastFired && nowTs - alerts.lastFired.at < 15_000 && (
+          <div className="pointer-events-none fixed inset-x-0 bottom-6 z-50 flex justify-center">
+            <span
+              className={`rounded-full bg-amber-950/95 px-4 py-2 text-amber-100 shadow-lg ring-1 ring-amber-600 ${tvMode ? "text-xl" : "text-sm"}`}
+            >
+              🔔 {alerts.lastFired.message}
+            </span>
+          </div>
+        )}
         {!tvMode && (
           <div className="mt-4 flex items-center gap-3">
-            <input
-              className="flex-1 rounded-md bg-neutral-900 px-3 py-2 ring-1 ring-neutral-800 outline-none focus:ring-indigo-500"
-              placeholder="Paste Polymarket URL (event or market)"
+            <MarketSearch
+              className="flex-1"
+              placeholder="Search markets, or paste a Polymarket URL, slug, condition ID or token ID"
               value={marketUrl}
-              onChange={(e) => setMarketUrl(e.target.value)}
+              onChange={setMarketUrl}
+              onSubmit={() => resolveNow()}
+              odds={odds}
+              onSelect={(r) => {
+                setMarketUrl(r.url);
+                resolveNow(r.url);
+              }}
             />
             {resolving && (
-              <span className="inline-flex items-center gap-2 text-xs text-slate-300">
-                <span className="h-4 w-4 animate-spin rounded-full border-2 border-slate-500 border-t-transparent" />
+              <span className="inline-flex items-center gap-2 text-xs text-ink-300">
+                <span className="h-4 w-4 animate-spin rounded-full border-2 border-ink-500 border-t-transparent" />
                 Resolving...
               </span>
             )}
@@ -179,23 +336,46 @@ export default function HomeContent() {
         {market && (
           <div className="mt-4">
             {!tvMode && (
-              <div className="line-clamp-2 text-base text-slate-300 sm:text-lg md:text-xl">{market.question}</div>
+              <div className="line-clamp-2 text-base text-ink-300 sm:text-lg md:text-xl">{market.question}</div>
             )}
             <MarketControls
               tvMode={tvMode}
+              outcomes={market.outcomes.map((o) => ({
+                key: outcomeKey(o),
+                label: o.closed ? `${o.label} (closed)` : o.label,
+              }))}
+              outcomeKey={outcome ? outcomeKey(outcome) : undefined}
+              onOutcomeChange={setSelectedOutcome}
               pov={pov}
-              yesLabel={market?.yesLabel}
-              noLabel={market?.noLabel}
+              yesLabel={yesLabel}
+              noLabel={noLabel}
               onPovChange={setPov}
               delaySec={delaySec}
               onDelayChange={setDelaySec}
               tf={tf}
               onTfChange={setTf}
+              timeZone={timeZone}
+              onTimeZoneChange={setTimeZone}
+              indicators={indicators}
+              onIndicatorsChange={setIndicators}
+              chartStyle={chartStyle}
+              onChartStyleChange={setChartStyle}
+              model={model}
+              onModelChange={setModel}
+              oddsFormat={odds.format}
+              onOddsFormatChange={(format) => setOdds((prev) => ({ ...prev, format }))}
             />
             <div className="mt-2 flex flex-wrap items-center gap-3">
-              <StatusBadge delaySec={delaySec} tvMode={tvMode} />
+              <StatusBadge
+                delaySec={delaySec}
+                tvMode={tvMode}
+                replaySpeed={replay.active ? replay.speed : undefined}
+                modelLabel={PRICING_MODEL_LABELS[model]}
+                health={health}
+                staleMs={staleMs}
+              />
               {!tvMode && (
-                <div className="rounded-full bg-neutral-900 px-3 py-1.5 text-xs text-neutral-400 ring-1 ring-neutral-800 sm:text-sm">
+                <div className="rounded-full bg-ink-900 px-3 py-1.5 text-xs text-ink-400 ring-1 ring-ink-800 sm:text-sm">
                   {(() => {
                     if (market?.endDateIso) {
                       const t = Date.parse(market.endDateIso);
@@ -208,12 +388,16 @@ export default function HomeContent() {
                   })()}
                 </div>
               )}
-              {!tvMode && market?.slug && (
+              {!tvMode && (market.eventSlug || outcome?.slug) && (
                 <a
-                  href={`https://polymarket.com/market/${market.slug}`}
+                  href={
+                    market.eventSlug
+                      ? `https://polymarket.com/event/${market.eventSlug}`
+                      : `https://polymarket.com/market/${outcome?.slug}`
+                  }
                   target="_blank"
                   rel="noopener noreferrer"
-                  className="inline-flex items-center gap-1 rounded-full bg-neutral-900 px-3 py-1.5 text-xs text-neutral-300 ring-1 ring-neutral-800 hover:ring-neutral-600 sm:text-sm"
+                  className="inline-flex items-center gap-1 rounded-full bg-ink-900 px-3 py-1.5 text-xs text-ink-300 ring-1 ring-ink-800 hover:ring-ink-600 sm:text-sm"
                 >
                   Open on Polymarket
                   <svg viewBox="0 0 24 24" aria-hidden="true" className="h-3.5 w-3.5 fill-current">
@@ -222,22 +406,125 @@ export default function HomeContent() {
                   </svg>
                 </a>
               )}
+              {!tvMode && marketUrl && (
+                <Link
+                  href={(() => {
+                    const params = new URLSearchParams(themeQS);
+                    if (timeZone !== DEFAULT_TIME_ZONE) params.set("tz", timeZone);
+                    writeOdds(params, odds);
+                    const tile = {
+                      url: marketUrl,
+                      delaySec,
+                      tf,
+                      pov,
+                      outcome: outcome ? outcomeKey(outcome) : undefined,
+                    };
+                    writeGrid(params, "2x2", [tile]);
+                    return `/grid?${params.toString()}`;
+                  })()}
+                  className="inline-flex items-center gap-1 rounded-full bg-ink-900 px-3 py-1.5 text-xs text-ink-300 ring-1 ring-ink-800 hover:ring-ink-600 sm:text-sm"
+                >
+                  Open in grid
+                </Link>
+              )}
+              {!tvMode && outcome && (
+                <ExportMenu
+                  name={outcome.slug || market.eventSlug || "market"}
+                  getPayload={() => {
+                    // Same cutoff as the chart: nothing newer than the display time (replay time while replaying)
+                    const cutoffTs = viewTs - viewDelayMs;
+                    return buildExport({
+                      yes: mergeBackfill(backfillYes, seriesYes.toArray()),
+                      no: mergeBackfill(backfillNo, seriesNo.toArray()),
+                      tfMinutes: tf,
+                      timeZone,
+                      cutoffTs,
+                      yesTokenId: outcome.yesTokenId,
+                      noTokenId: outcome.noTokenId,
+                    });
+                  }}
+                />
+              )}
             </div>
+            {!tvMode && (
+              <div className="mt-3">
+                <ReplayControls
+                  active={replay.active}
+                  playing={replay.playing}
+                  speed={replay.speed}
+                  ts={replay.ts}
+                  minTs={historyStartTs}
+                  maxTs={nowTs - delayMs}
+                  onStart={replay.start}
+                  onStop={replay.stop}
+                  onSeek={replay.seek}
+                  onPlay={replay.play}
+                  onPause={replay.pause}
+                  onSpeedChange={replay.setSpeed}
+                />
+              </div>
+            )}
+            {!replay.active && <FeedHealthBanner health={health} staleMs={staleMs} tvMode={tvMode} />}
             <BigPercent
               series={activeSeries}
-              nowTs={nowTs}
-              delayMs={delayMs}
-              label={pov === "YES" ? market?.yesLabel : market?.noLabel}
+              backfill={activeBackfill}
+              nowTs={viewTs}
+              delayMs={viewDelayMs}
+              label={pov === "YES" ? yesLabel : noLabel}
               tvMode={tvMode}
+              odds={odds}
             />
             <div className="mt-4">
-              <Chart candles={candles} height={tvMode ? 480 : 360} tvMode={tvMode} />
+              <Chart
+                candles={candles}
+                height={tvMode ? 480 : 360}
+                tvMode={tvMode}
+                indicators={indicators}
+                chartStyle={chartStyle}
+                points={points}
+                theme={theme}
+                seriesKey={`${activeTokenId}:${tf}`}
+                initialWindowMs={initialViewMs(tf)}
+                timeZone={timeZone}
+                odds={odds}
+                onNeedOlder={loadOlder}
+              />
             </div>
+            {tvMode ? (
+              <div className="mt-4">
+                <TradesTape trades={trades} nowTs={viewTs} delayMs={viewDelayMs} odds={odds} compact tvMode />
+              </div>
+            ) : (
+              <div className="mt-4 grid gap-4 md:grid-cols-2">
+                <div className="md:col-span-2">
+                  <BookSummary
+                    snapshots={tobHistory}
+                    nowTs={viewTs}
+                    delayMs={viewDelayMs}
+                    yesLabel={yesLabel}
+                    noLabel={noLabel}
+                  />
+                </div>
+                <DepthChart snapshots={bookSnapshots} nowTs={viewTs} delayMs={viewDelayMs} odds={odds} />
+                <TradesTape trades={trades} nowTs={viewTs} delayMs={viewDelayMs} odds={odds} />
+              </div>
+            )}
+            {!tvMode && (
+              <div className="mt-4">
+                <AlertsPanel
+                  rules={alerts.rules}
+                  onAdd={alerts.addRule}
+                  onRemove={alerts.removeRule}
+                  permission={alerts.permission}
+                  onRequestPermission={alerts.requestPermission}
+                />
+              </div>
+            )}
           </div>
         )}
         {!tvMode && (
-          <div className="mt-10 border-t border-neutral-800 pt-6 text-center">
-            <div className="text-sm text-neutral-400 sm:text-base">
+          <div className="mt-10 border-t border-ink-800 pt-6 text-center">
+            <div className="text-sm text-ink-400 sm:text-base">
               Made with{" "}
               <span role="img" aria-label="love" className="mx-1">
                 ❤️
@@ -247,7 +534,7 @@ export default function HomeContent() {
                 href="https://dylanwheeler.net"
                 target="_blank"
                 rel="noopener noreferrer"
-                className="underline decoration-neutral-700 underline-offset-4 hover:text-neutral-200 hover:decoration-neutral-400"
+                className="underline decoration-ink-700 underline-offset-4 hover:text-ink-200 hover:decoration-ink-400"
               >
                 Dylan
               </a>
@@ -256,7 +543,7 @@ export default function HomeContent() {
               href="https://github.com/Confiqure/polymarket-viewer"
               target="_blank"
               rel="noopener noreferrer"
-              className="mt-3 inline-flex items-center gap-2 rounded-full bg-neutral-900 px-3 py-1.5 text-xs text-neutral-300 ring-1 ring-neutral-700 hover:ring-neutral-500 sm:text-sm"
+              className="mt-3 inline-flex items-center gap-2 rounded-full bg-ink-900 px-3 py-1.5 text-xs text-ink-300 ring-1 ring-ink-700 hover:ring-ink-500 sm:text-sm"
             >
               <svg aria-hidden="true" viewBox="0 0 24 24" className="h-4 w-4 fill-current">
                 <path d="M12 .5C5.73.5.95 5.28.95 11.55c0 4.86 3.16 8.98 7.55 10.43.55.1.75-.24.75-.53 0-.26-.01-1.13-.02-2.05-3.07.67-3.72-1.31-3.72-1.31-.5-1.27-1.22-1.61-1.22-1.61-.99-.68.07-.66.07-.66 1.09.08 1.66 1.12 1.66 1.12.97 1.65 2.54 1.18 3.16.9.1-.7.38-1.18.69-1.45-2.45-.28-5.02-1.23-5.02-5.48 0-1.21.43-2.19 1.12-2.96-.11-.28-.49-1.41.11-2.93 0 0 .92-.29 3.02 1.13a10.5 10.5 0 0 1 2.75-.37c.93 0 1.86.12 2.75.37 2.1-1.42 3.02-1.13 3.02-1.13.6 1.52.22 2.65.11 2.93.69.77 1.12 1.75 1.12 2.96 0 4.26-2.58 5.2-5.04 5.47.39.34.73 1.01.73 2.04 0 1.47-.01 2.65-.01 3.01 0 .29.2.64.75.53 4.39-1.45 7.55-5.57 7.55-10.43C23.05 5.28 18.27.5 12 .5z" />
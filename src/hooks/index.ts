@@ -1,5 +1,11 @@
 export { useCandles } from "./useCandles";
+export { useDelayedPoints } from "./useDelayedPoints";
 export { useWakeLock } from "./useWakeLock";
 export { useTvShortcuts } from "./useTvShortcuts";
 export { useMarketHistory } from "./useMarketHistory";
 export { useResolveMarket } from "./useResolveMarket";
+export { useMarketSearch } from "./useMarketSearch";
+export { useOrderBook } from "./useOrderBook";
+export { useTrades } from "./useTrades";
+export { useAlerts } from "./useAlerts";
+export { useReplay } from "./useReplay";
@@ -0,0 +1,141 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { z } from "zod";
+import type { TimeSeries } from "@/lib/buffer";
+import { AlertRuleSchema, checkRule, type AlertCondition, type AlertRule, type AlertState } from "@/lib/alerts";
+
+const STORAGE_KEY = "polymarket-viewer:alerts";
+const StoredRules = z.record(z.string(), z.array(AlertRuleSchema));
+
+function loadAll(): Record<string, AlertRule[]> {
+  try {
+    const parsed = StoredRules.safeParse(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}"));
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveRules(key: string, rules: AlertRule[]) {
+  try {
+    const all = loadAll();
+    if (rules.length) all[key] = rules;
+    else delete all[key];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (e) {
+    console.warn("[Alerts] save failed", e);
+  }
+}
+
+// Short two-tone chime via Web Audio (no asset to load).
+function playChime() {
+  try {
+    const Ctx =
+      window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!Ctx) return;
+    const ctx = new Ctx();
+    [880, 1320].forEach((freq, i) => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      const start = ctx.currentTime + i * 0.18;
+      osc.frequency.value = freq;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.3, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.35);
+      osc.connect(gain).connect(ctx.destination);
+      osc.start(start);
+      osc.stop(start + 0.4);
+    });
+    setTimeout(() => ctx.close().catch(() => {}), 1000);
+  } catch (e) {
+    console.warn("[Alerts] chime failed", e);
+  }
+}
+
+export type FiredAlert = { ruleId: string; message: string; at: number };
+
+// Alert rules for one displayed series, persisted in localStorage under `storageKey`
+// (the active outcome token). Rules are checked on every clock tick at nowTs - delayMs.
+export function useAlerts({
+  series,
+  nowTs,
+  delayMs,
+  storageKey,
+  label,
+}: {
+  series: TimeSeries;
+  nowTs: number;
+  delayMs: number;
+  storageKey: string | undefined;
+  label?: string;
+}) {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [lastFired, setLastFired] = useState<FiredAlert | null>(null);
+  const [permission, setPermission] = useState<NotificationPermission | "unsupported">("default");
+  const statesRef = useRef<Map<string, AlertState>>(new Map());
+
+  useEffect(() => {
+    setPermission(typeof Notification === "undefined" ? "unsupported" : Notification.permission);
+  }, []);
+
+  // Load rules for the current key; reset evaluation memory when the key or series changes
+  useEffect(() => {
+    setRules(storageKey ? (loadAll()[storageKey] ?? []) : []);
+  }, [storageKey]);
+  useEffect(() => {
+    statesRef.current = new Map();
+  }, [storageKey, series, delayMs]);
+
+  const updateRules = useCallback(
+    (next: AlertRule[]) => {
+      setRules(next);
+      if (storageKey) saveRules(storageKey, next);
+    },
+    [storageKey],
+  );
+  const addRule = useCallback(
+    (rule: AlertCondition) => {
+      const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+      updateRules([...rules, { ...rule, id } as AlertRule]);
+    },
+    [rules, updateRules],
+  );
+  const removeRule = useCallback((id: string) => updateRules(rules.filter((r) => r.id !== id)), [rules, updateRules]);
+
+  const requestPermission = useCallback(async () => {
+    if (typeof Notification === "undefined") return;
+    try {
+      setPermission(await Notification.requestPermission());
+    } catch (e) {
+      console.warn("[Alerts] permission request failed", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!rules.length || !nowTs) return;
+    const displayTs = nowTs - delayMs;
+    for (const rule of rules) {
+      let state = statesRef.current.get(rule.id);
+      if (!state) {
+        state = {};
+        statesRef.current.set(rule.id, state);
+      }
+      const message = checkRule(rule, series, displayTs, state);
+      if (!message) continue;
+      const text = label ? `${label}: ${message}` : message;
+      setLastFired({ ruleId: rule.id, message: text, at: nowTs });
+      playChime();
+      if (typeof Notification !== "undefined" && Notification.permission === "granted") {
+        try {
+          new Notification("Polymarket Viewer alert", { body: text, tag: rule.id });
+        } catch (e) {
+          console.warn("[Alerts] notification failed", e);
+        }
+      }
+    }
+  }, [rules, series, nowTs, delayMs, label]);
+
+  return { rules, addRule, removeRule, lastFired, permission, requestPermission } as const;
+}
+
+export default useAlerts;
@@ -1,33 +1,48 @@
 "use client";
 import { useMemo } from "react";
-import { buildCandles } from "@/lib/candles";
-import { TimeSeries } from "@/lib/buffer";
+import { applyVolume, buildCandles } from "@/lib/candles";
+import { TimeSeries, mergeBackfill } from "@/lib/buffer";
 import type { PricePoint } from "@/lib/types";
-import type { TF } from "@/lib/timeframes";
-import { tfToMs } from "@/lib/timeframes";
+import { DEFAULT_TIME_ZONE, alignBuckets, type TF } from "@/lib/timeframes";
 
-export function useCandles(series: TimeSeries, backfill: PricePoint[], nowTs: number, delayMs: number, tf: TF) {
-  const intervalMs = tfToMs(tf);
+// `fills` (trades with sizes) are optional and only contribute per-bucket volume. Hour / day / week
+// buckets start at local midnight in `timeZone`.
+export function useCandles(
+  series: TimeSeries,
+  backfill: PricePoint[],
+  nowTs: number,
+  delayMs: number,
+  tf: TF,
+  fills?: PricePoint[],
+  timeZone: string = DEFAULT_TIME_ZONE,
+) {
+  const align = useMemo(() => alignBuckets(tf, timeZone), [tf, timeZone]);
   return useMemo(() => {
     const displayCutoff = nowTs - delayMs;
     // Filter both historical and live points so none newer than cutoff leak.
     const filteredBackfill = backfill.filter((p) => p.t <= displayCutoff);
     const filteredLive = series.toArray().filter((p) => p.t <= displayCutoff);
-    const candlesAll = buildCandles([...filteredBackfill, ...filteredLive], intervalMs);
+    const filteredFills = (fills ?? []).filter((p) => p.t <= displayCutoff);
+    // Live (possibly rehydrated) ticks replace minute backfill wherever they overlap.
+    const candlesAll = applyVolume(
+      buildCandles(mergeBackfill(filteredBackfill, filteredLive), align),
+      filteredFills,
+      align,
+    );
     // Extend with synthetic candles up to the current (delayed) bucket so the chart
     // continues to update even when there's a gap in ticks. Uses last known price only.
     if (candlesAll.length === 0) return candlesAll;
-    const currentBucketStart = Math.floor(displayCutoff / intervalMs) * intervalMs;
+    const currentBucketStart = align.floor(displayCutoff);
     const extended = [...candlesAll];
     let last = extended[extended.length - 1];
     // fill forward one or more buckets with doji candles carrying forward last close
-    let t = last.t + intervalMs;
+    let t = align.next(last.t);
     while (t <= currentBucketStart) {
       const price = last.close;
-      extended.push({ t, open: price, high: price, low: price, close: price });
+      extended.push({ t, open: price, high: price, low: price, close: price, synthetic: true });
       last = extended[extended.length - 1];
-      t += intervalMs;
+      t = align.next(t);
     }
     return extended;
-  }, [series, backfill, nowTs, delayMs, intervalMs]);
+  }, [series, backfill, nowTs, delayMs, align, fills]);
 }
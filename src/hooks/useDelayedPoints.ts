@@ -0,0 +1,22 @@
+"use client";
+import { useMemo } from "react";
+import { TimeSeries, mergeBackfill } from "@/lib/buffer";
+import type { PricePoint } from "@/lib/types";
+
+// Backfill + live ticks merged in time order, cut off at the display time (no points newer than
+// nowTs - delayMs). Used by the line-style charts, which plot ticks rather than bucket closes.
+export function useDelayedPoints(
+  series: TimeSeries,
+  backfill: PricePoint[],
+  nowTs: number,
+  delayMs: number,
+  enabled = true,
+) {
+  return useMemo(() => {
+    if (!enabled) return [];
+    const displayCutoff = nowTs - delayMs;
+    const filteredBackfill = backfill.filter((p) => p.t <= displayCutoff);
+    const filteredLive = series.toArray().filter((p) => p.t <= displayCutoff);
+    return mergeBackfill(filteredBackfill, filteredLive);
+  }, [series, backfill, nowTs, delayMs, enabled]);
+}
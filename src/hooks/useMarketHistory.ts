@@ -1,56 +1,118 @@
 "use client";
-import { useEffect, useState } from "react";
-import type { MarketRef, PricePoint } from "@/lib/types";
-import { fetchHistory } from "@/services/polymarket";
-import type { TF } from "@/lib/timeframes";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { OutcomeRef, PricePoint } from "@/lib/types";
+import { fetchHistory, type HistoryPoint } from "@/services/polymarket";
+import { initialPages, pageBefore, type HistoryRange } from "@/lib/backfill";
 
-export function useMarketHistory(market: MarketRef | null, _tf: TF) {
+const toPoints = (h: HistoryPoint[]): PricePoint[] =>
+  h.map((p) => ({ t: p.t * 1000, p: p.p })).sort((a, b) => a.t - b.t);
+
+// Older page in front of what's loaded; the boundary sample may appear in both, the loaded one wins.
+const prepend = (older: PricePoint[], current: PricePoint[]): PricePoint[] => {
+  const first = current[0]?.t ?? Infinity;
+  return [...older.filter((p) => p.t < first), ...current];
+};
+
+// Backfill for both outcome tokens at a sample spacing that suits the timeframe (see lib/backfill).
+// The first load covers the chart's initial view (several pages for day / week candles); `loadOlder`
+// pages further back (the chart calls it when scrolled to its left edge) until upstream has nothing older.
+export function useMarketHistory(market: OutcomeRef | null, tfMinutes: number) {
   const [backfillYes, setBackfillYes] = useState<PricePoint[]>([]);
   const [backfillNo, setBackfillNo] = useState<PricePoint[]>([]);
   const [loading, setLoading] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [exhausted, setExhausted] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Start of the oldest page requested so far (ms), and a generation counter so responses for a
+  // previous market / timeframe are dropped.
+  const oldestRef = useRef<number | null>(null);
+  const genRef = useRef(0);
+  const busyRef = useRef(false);
+
+  const fetchPage = useCallback(async (m: OutcomeRef, range: HistoryRange) => {
+    const [yesRes, noRes] = await Promise.allSettled([
+      fetchHistory(m.yesTokenId, range),
+      fetchHistory(m.noTokenId, range),
+    ]);
+    if (yesRes.status === "rejected") console.warn("[History] YES fetch failed", yesRes.reason);
+    if (noRes.status === "rejected") console.warn("[History] NO fetch failed", noRes.reason);
+    return {
+      yes: yesRes.status === "fulfilled" ? toPoints(yesRes.value) : null,
+      no: noRes.status === "fulfilled" ? toPoints(noRes.value) : null,
+    };
+  }, []);
 
   useEffect(() => {
+    const gen = ++genRef.current;
+    oldestRef.current = null;
+    busyRef.current = false;
+    setBackfillYes([]);
+    setBackfillNo([]);
+    setExhausted(false);
+    setLoadingOlder(false);
     if (!market) return;
-    let cancelled = false;
+    const pages = initialPages(Date.now(), tfMinutes);
     (async () => {
       try {
         setLoading(true);
         setError(null);
-        const yesId = market.yesTokenId;
-        const noId = market.noTokenId;
-        const [yesRes, noRes] = await Promise.allSettled([fetchHistory(yesId, "1"), fetchHistory(noId, "1")]);
-        if (!cancelled) {
-          if (yesRes.status === "fulfilled") {
-            setBackfillYes(yesRes.value.map((h) => ({ t: h.t * 1000, p: h.p })));
-          } else {
-            console.warn("[History] YES fetch failed", yesRes.reason);
-            setBackfillYes([]);
-          }
-          if (noRes.status === "fulfilled") {
-            setBackfillNo(noRes.value.map((h) => ({ t: h.t * 1000, p: h.p })));
-          } else {
-            console.warn("[History] NO fetch failed", noRes.reason);
-            setBackfillNo([]);
-          }
+        const results = await Promise.all(pages.map((range) => fetchPage(market, range)));
+        if (gen !== genRef.current) return;
+        // Keep the pages contiguous from the newest; past a failed one, loadOlder retries from there
+        let yes: PricePoint[] = [];
+        let no: PricePoint[] = [];
+        for (let i = 0; i < pages.length; i++) {
+          const page = results[i];
+          if (i > 0 && (page.yes == null || page.no == null)) break;
+          yes = prepend(page.yes ?? [], yes);
+          no = prepend(page.no ?? [], no);
+          oldestRef.current = pages[i].startTs * 1000;
         }
+        setBackfillYes(yes);
+        setBackfillNo(no);
       } catch (err) {
-        if (!cancelled) {
-          console.error("[History] batch fetch unexpected error", err);
-          setBackfillYes([]);
-          setBackfillNo([]);
-          setError("Failed to fetch history");
-        }
+        if (gen !== genRef.current) return;
+        console.error("[History] batch fetch unexpected error", err);
+        setError("Failed to fetch history");
       } finally {
-        if (!cancelled) setLoading(false);
+        if (gen === genRef.current) setLoading(false);
       }
     })();
-    return () => {
-      cancelled = true;
-    };
-  }, [market, _tf]);
+  }, [market, tfMinutes, fetchPage]);
+
+  // Fetch the page before the oldest loaded one, reaching back to `wantFromMs` if given. No-op while a
+  // page is in flight or once upstream returned nothing older.
+  const loadOlder = useCallback(
+    async (wantFromMs?: number) => {
+      const oldest = oldestRef.current;
+      if (!market || oldest == null || busyRef.current || exhausted) return;
+      const gen = genRef.current;
+      const range = pageBefore(oldest, tfMinutes, wantFromMs);
+      busyRef.current = true;
+      setLoadingOlder(true);
+      try {
+        const { yes, no } = await fetchPage(market, range);
+        if (gen !== genRef.current) return;
+        // A failed request leaves the cursor alone so the next scroll retries the same page
+        if (yes == null || no == null) return;
+        oldestRef.current = range.startTs * 1000;
+        if (yes.length === 0 && no.length === 0) {
+          setExhausted(true);
+          return;
+        }
+        setBackfillYes((prev) => prepend(yes, prev));
+        setBackfillNo((prev) => prepend(no, prev));
+      } finally {
+        if (gen === genRef.current) {
+          busyRef.current = false;
+          setLoadingOlder(false);
+        }
+      }
+    },
+    [market, tfMinutes, exhausted, fetchPage],
+  );
 
-  return { backfillYes, backfillNo, loading, error } as const;
+  return { backfillYes, backfillNo, loading, loadingOlder, exhausted, error, loadOlder } as const;
 }
 
 export default useMarketHistory;
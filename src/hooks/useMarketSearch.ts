@@ -0,0 +1,51 @@
+"use client";
+import { useEffect, useState } from "react";
+import axios from "axios";
+import type { SearchResult } from "@/lib/types";
+import { parseMarketInput } from "@/lib/marketRef";
+import { searchMarkets } from "@/services/polymarket";
+
+const MIN_QUERY = 2;
+
+// Free text worth searching: links, condition ids and token ids resolve directly, so only
+// words and bare slugs go to /api/search.
+function isSearchable(q: string) {
+  if (q.length < MIN_QUERY) return false;
+  const parsed = parseMarketInput(q);
+  return parsed == null || parsed.kind === "slug";
+}
+
+// Debounced typeahead over /api/search; in-flight requests are aborted when the query changes.
+export function useMarketSearch(query: string, { enabled = true, debounceMs = 250 } = {}) {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!enabled || !isSearchable(q)) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+    const ctrl = new AbortController();
+    setLoading(true);
+    const id = setTimeout(async () => {
+      try {
+        const found = await searchMarkets(q, ctrl.signal);
+        if (!ctrl.signal.aborted) setResults(found);
+      } catch (e) {
+        if (!axios.isCancel(e)) console.warn("[Search] failed", e);
+      } finally {
+        if (!ctrl.signal.aborted) setLoading(false);
+      }
+    }, debounceMs);
+    return () => {
+      clearTimeout(id);
+      ctrl.abort();
+    };
+  }, [query, enabled, debounceMs]);
+
+  return { results, loading } as const;
+}
+
+export default useMarketSearch;
@@ -0,0 +1,40 @@
+"use client";
+import { useEffect, useState } from "react";
+import type { OrderBook } from "@/lib/types";
+import { fetchBook } from "@/services/polymarket";
+
+const POLL_INTERVAL_MS = 5000;
+// Longer than the max display delay (600s) so a delayed view always has a snapshot to show.
+const MAX_AGE_MS = 15 * 60 * 1000;
+
+// Polls /api/book and keeps a time-ordered buffer of snapshots; consumers pick the one to
+// show for their display time (see bookAtOrBefore) so depth never runs ahead of the delay.
+export function useOrderBook(tokenId: string | undefined, enabled = true) {
+  const [snapshots, setSnapshots] = useState<OrderBook[]>([]);
+
+  useEffect(() => {
+    setSnapshots([]);
+    if (!tokenId || !enabled) return;
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const book = await fetchBook(tokenId);
+        if (cancelled) return;
+        const t = Date.now();
+        setSnapshots((prev) => [...prev.filter((s) => s.t >= t - MAX_AGE_MS), { t, ...book }]);
+      } catch (e) {
+        console.warn("[Book] fetch failed", e);
+      }
+    };
+    poll();
+    const id = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(id);
+    };
+  }, [tokenId, enabled]);
+
+  return { snapshots } as const;
+}
+
+export default useOrderBook;
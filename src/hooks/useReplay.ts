@@ -0,0 +1,72 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { advanceReplay, replayLimit, type ReplaySpeed } from "@/lib/replay";
+
+// Virtual clock for replay mode, advanced by the page's own clock ticks (`nowTs`) times `speed`.
+// `anchorTs` is the last position the user chose (start / seek / pause), second-aligned so it
+// round-trips through the `replay=` URL param. Replay never passes now - delayMs: playback pauses there
+// and seeks are clamped to it.
+export function useReplay(nowTs: number, delayMs: number) {
+  const [active, setActive] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState<ReplaySpeed>(1);
+  const [ts, setTs] = useState(0);
+  const [anchorTs, setAnchorTs] = useState(0);
+  const lastNowRef = useRef(0);
+  const limitTs = replayLimit(nowTs, delayMs);
+  const limitRef = useRef(limitTs);
+  limitRef.current = limitTs;
+
+  useEffect(() => {
+    const last = lastNowRef.current;
+    lastNowRef.current = nowTs;
+    if (!active || !playing || !last || nowTs <= last) return;
+    setTs((prev) => advanceReplay(prev, nowTs - last, speed, limitTs));
+  }, [nowTs, active, playing, speed, limitTs]);
+
+  useEffect(() => {
+    if (!active || !playing || ts < limitTs) return;
+    setPlaying(false);
+    setAnchorTs(Math.floor(limitTs / 1000) * 1000);
+  }, [active, playing, ts, limitTs]);
+
+  const seek = useCallback((to: number) => {
+    const aligned = Math.floor(Math.min(to, limitRef.current) / 1000) * 1000;
+    setTs(aligned);
+    setAnchorTs(aligned);
+  }, []);
+  const start = useCallback(
+    (from: number) => {
+      setActive(true);
+      seek(from);
+    },
+    [seek],
+  );
+  const stop = useCallback(() => {
+    setActive(false);
+    setPlaying(false);
+  }, []);
+  const pause = useCallback(() => {
+    setPlaying(false);
+    seek(ts);
+  }, [seek, ts]);
+  const play = useCallback(() => setPlaying(true), []);
+
+  // Apply `replay=` / `speed=` read from the URL; a no-op when they match what's already shown.
+  const stateRef = useRef({ active, anchorTs });
+  useEffect(() => {
+    stateRef.current = { active, anchorTs };
+  }, [active, anchorTs]);
+  const applyParams = useCallback(
+    (startTs: number | undefined, nextSpeed: ReplaySpeed | undefined) => {
+      if (startTs != null && startTs !== stateRef.current.anchorTs) start(startTs);
+      else if (startTs == null && stateRef.current.active) stop();
+      setSpeed(nextSpeed ?? 1);
+    },
+    [start, stop],
+  );
+
+  return { active, playing, speed, ts, anchorTs, start, stop, seek, play, pause, setSpeed, applyParams } as const;
+}
+
+export default useReplay;
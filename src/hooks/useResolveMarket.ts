@@ -1,15 +1,14 @@
 "use client";
 import { useCallback, useEffect, useRef, useState } from "react";
 import type { MarketRef } from "@/lib/types";
+import { parseMarketInput } from "@/lib/marketRef";
 import { resolveMarket as svcResolveMarket } from "@/services/polymarket";
 
-function isLikelyUrl(u: string) {
-  try {
-    const parsed = new URL(u);
-    return parsed.protocol === "http:" || parsed.protocol === "https:";
-  } catch {
-    return false;
-  }
+// Bare slugs are indistinguishable from half-typed text, so they only auto-resolve when asked to
+// (e.g. grid tiles, whose reference is already committed); otherwise they wait for resolveNow().
+function shouldAutoResolve(input: string, resolveSlugs: boolean) {
+  const parsed = parseMarketInput(input);
+  return parsed != null && (resolveSlugs || parsed.kind !== "slug");
 }
 
 export function useResolveMarket({
@@ -17,11 +16,13 @@ export function useResolveMarket({
   enabled = true,
   onResolved,
   debounceMs = 400,
+  resolveSlugs = false,
 }: {
   marketUrl: string;
   enabled?: boolean;
   onResolved: (market: MarketRef, resolvedUrl: string) => void;
   debounceMs?: number;
+  resolveSlugs?: boolean;
 }) {
   const [resolving, setResolving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -53,7 +54,7 @@ export function useResolveMarket({
     if (!enabled) return;
     const target = marketUrl.trim();
     if (!target) return;
-    if (!isLikelyUrl(target)) return; // avoid 500 from /api/resolve on non-URL text
+    if (!shouldAutoResolve(target, resolveSlugs)) return; // don't spam /api/resolve with partial input
     if (target === lastResolvedRef.current) return;
     const id = setTimeout(() => {
       if (marketUrl.trim() === target && target !== lastResolvedRef.current) {
@@ -61,7 +62,7 @@ export function useResolveMarket({
       }
     }, debounceMs);
     return () => clearTimeout(id);
-  }, [enabled, marketUrl, resolveNow, debounceMs]);
+  }, [enabled, marketUrl, resolveNow, debounceMs, resolveSlugs]);
 
   return { resolving, error, resolveNow, setError } as const;
 }
@@ -0,0 +1,43 @@
+"use client";
+import { useEffect, useState } from "react";
+import type { Trade } from "@/lib/types";
+import { fetchTrades } from "@/services/polymarket";
+
+const POLL_INTERVAL_MS = 5000;
+const MAX_TRADES = 500;
+
+// Polls /api/trades and accumulates fills (newest first, deduped by id). Upstream only returns the
+// latest page, so keeping our own history is what lets a long display delay still show a tape.
+export function useTrades(conditionId: string | undefined, tokenId: string | undefined, enabled = true) {
+  const [trades, setTrades] = useState<Trade[]>([]);
+
+  useEffect(() => {
+    setTrades([]);
+    if (!conditionId || !tokenId || !enabled) return;
+    let cancelled = false;
+    const poll = async () => {
+      try {
+        const latest = await fetchTrades(conditionId, tokenId);
+        if (cancelled) return;
+        setTrades((prev) => {
+          const seen = new Set(prev.map((t) => t.id));
+          const fresh = latest.filter((t) => !seen.has(t.id));
+          if (fresh.length === 0) return prev;
+          return [...fresh, ...prev].sort((a, b) => b.t - a.t).slice(0, MAX_TRADES);
+        });
+      } catch (e) {
+        console.warn("[Trades] fetch failed", e);
+      }
+    };
+    poll();
+    const id = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(id);
+    };
+  }, [conditionId, tokenId, enabled]);
+
+  return { trades } as const;
+}
+
+export default useTrades;
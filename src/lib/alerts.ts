@@ -0,0 +1,66 @@
+import { z } from "zod";
+import type { TimeSeries } from "./buffer";
+
+// Alert rules. In the browser they are evaluated against the *delayed* series so an alert can never
+// fire before the move is visible on screen; server-side webhook alerts evaluate them live.
+//   above / below -> fires when the displayed probability crosses the threshold (0..1)
+//   move          -> fires when it moves >= `points` percentage points within `minutes`
+
+const Above = z.object({ kind: z.literal("above"), threshold: z.number().min(0).max(1) });
+const Below = z.object({ kind: z.literal("below"), threshold: z.number().min(0).max(1) });
+const Move = z.object({ kind: z.literal("move"), points: z.number().positive(), minutes: z.number().positive() });
+
+export const AlertConditionSchema = z.discriminatedUnion("kind", [Above, Below, Move]);
+export type AlertCondition = z.infer<typeof AlertConditionSchema>;
+
+const id = z.string();
+export const AlertRuleSchema = z.discriminatedUnion("kind", [
+  Above.extend({ id }),
+  Below.extend({ id }),
+  Move.extend({ id }),
+]);
+export type AlertRule = z.infer<typeof AlertRuleSchema>;
+
+// Per-rule evaluation memory: last displayed value (for crossings) and last fire time (for moves).
+export type AlertState = { lastP?: number; lastFiredAt?: number };
+
+const pct = (p: number) => `${(p * 100).toFixed(1)}%`;
+
+export function describeRule(rule: AlertCondition): string {
+  if (rule.kind === "above") return `Crosses above ${pct(rule.threshold)}`;
+  if (rule.kind === "below") return `Crosses below ${pct(rule.threshold)}`;
+  return `Moves ${rule.points} pts within ${rule.minutes}m`;
+}
+
+// Returns a message when the rule fires at `displayTs`, updating `state` in place.
+export function checkRule(
+  rule: AlertCondition,
+  series: TimeSeries,
+  displayTs: number,
+  state: AlertState,
+): string | null {
+  const pt = series.atOrBefore(displayTs);
+  if (!pt) return null;
+  const prev = state.lastP;
+  state.lastP = pt.p;
+
+  if (rule.kind === "above" || rule.kind === "below") {
+    if (prev == null) return null; // need a previous value to detect a crossing
+    const crossed =
+      rule.kind === "above"
+        ? prev < rule.threshold && pt.p >= rule.threshold
+        : prev > rule.threshold && pt.p <= rule.threshold;
+    return crossed ? `${describeRule(rule)} (now ${pct(pt.p)})` : null;
+  }
+
+  const windowMs = rule.minutes * 60_000;
+  const past = series.atOrBefore(displayTs - windowMs);
+  if (!past) return null;
+  const diffPts = (pt.p - past.p) * 100;
+  if (Math.abs(diffPts) < rule.points) return null;
+  // One alert per window so a sustained move doesn't fire on every tick
+  if (state.lastFiredAt != null && displayTs - state.lastFiredAt < windowMs) return null;
+  state.lastFiredAt = displayTs;
+  const sign = diffPts > 0 ? "+" : "";
+  return `Moved ${sign}${diffPts.toFixed(1)} pts in ${rule.minutes}m (now ${pct(pt.p)})`;
+}
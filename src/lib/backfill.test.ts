@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { initialPages, initialViewMs } from "./backfill";
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+const DAY_MS = 24 * 60 * 60_000;
+
+describe("initialPages", () => {
+  it("covers 120 weekly candles with contiguous, bounded requests", () => {
+    const tf = 10080;
+    const pages = initialPages(NOW, tf);
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages[0].endTs).toBe(NOW / 1000);
+    for (let i = 1; i < pages.length; i++) expect(pages[i].endTs).toBe(pages[i - 1].startTs);
+    for (const p of pages) expect((p.endTs - p.startTs) * 1000).toBeLessThanOrEqual(150 * DAY_MS);
+    const oldest = pages[pages.length - 1].startTs * 1000;
+    expect(oldest).toBeLessThanOrEqual(NOW - initialViewMs(tf));
+    expect((NOW - oldest) / (tf * 60_000)).toBeGreaterThanOrEqual(120);
+  });
+
+  it("needs a single page for short timeframes", () => {
+    const pages = initialPages(NOW, 5);
+    expect(pages).toHaveLength(1);
+    expect(pages[0].startTs * 1000).toBeLessThanOrEqual(NOW - initialViewMs(5));
+  });
+});
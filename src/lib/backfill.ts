@@ -0,0 +1,61 @@
+// How much price history to request for a candle timeframe, and how to page further back.
+// The CLOB's /prices-history returns one sample per `fidelity` minutes over either a named `interval`
+// or an explicit startTs/endTs range (unix seconds). Pages are sized so each holds about the same
+// number of samples whatever the timeframe: finer timeframes get denser, shorter pages. Day and week
+// candles are the exception: their pages are capped so one request never spans years of history.
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Samples per candle: enough to give each bucket a meaningful open/high/low/close.
+const SAMPLES_PER_CANDLE = 5;
+// Candles per page (so ~1500 samples per request).
+const CANDLES_PER_PAGE = 300;
+// Never fetch less than a day; short timeframes still want the recent session for context.
+const MIN_PAGE_MS = DAY_MS;
+// Longest single page (1d candles would otherwise page ~300 days at a time, 1w ~6 years).
+const MAX_PAGE_MS = 30 * DAY_MS;
+// A request widened to reach a zoomed-out left edge covers at most this many pages (plus one from snapping).
+const MAX_PAGES_PER_REQUEST = 4;
+
+export type BackfillPlan = {
+  fidelityMin: number; // sample spacing in minutes
+  pageMs: number; // span of one request
+};
+
+export function backfillPlan(tfMinutes: number): BackfillPlan {
+  const fidelityMin = Math.max(1, Math.floor(tfMinutes / SAMPLES_PER_CANDLE));
+  const pageMs = Math.min(MAX_PAGE_MS, Math.max(MIN_PAGE_MS, tfMinutes * CANDLES_PER_PAGE * MINUTE_MS));
+  return { fidelityMin, pageMs };
+}
+
+export type HistoryRange = { startTs: number; endTs: number; fidelity: number }; // seconds, minutes
+
+// The page ending at `endMs`, widened to reach `wantFromMs` (e.g. the left edge of a zoomed-out chart).
+// Starts snap to a multiple of the page span, so after the first page every viewer of a token asks for
+// the same ranges and the server cache can share them. Widening stops at MAX_PAGES_PER_REQUEST pages;
+// the next scroll to the edge asks for the rest.
+export function pageBefore(endMs: number, tfMinutes: number, wantFromMs?: number): HistoryRange {
+  const { fidelityMin, pageMs } = backfillPlan(tfMinutes);
+  const earliestMs = endMs - MAX_PAGES_PER_REQUEST * pageMs;
+  const fromMs = Math.max(earliestMs, Math.min(endMs - pageMs, wantFromMs ?? Infinity));
+  const startMs = Math.floor(fromMs / pageMs) * pageMs;
+  return { startTs: Math.floor(startMs / 1000), endTs: Math.ceil(endMs / 1000), fidelity: fidelityMin };
+}
+
+// Initial visible span of the chart: about 120 candles, at least the 4 hours the chart always showed.
+export const initialViewMs = (tfMinutes: number): number => Math.max(4 * 60 * MINUTE_MS, tfMinutes * 120 * MINUTE_MS);
+
+// Pages (newest first) that together cover the initial view back from `nowMs`. Short timeframes need one;
+// day and week candles need several because of the page cap.
+export function initialPages(nowMs: number, tfMinutes: number): HistoryRange[] {
+  const wantFromMs = nowMs - initialViewMs(tfMinutes);
+  const pages: HistoryRange[] = [];
+  let endMs = nowMs;
+  do {
+    const page = pageBefore(endMs, tfMinutes, wantFromMs);
+    pages.push(page);
+    endMs = page.startTs * 1000;
+  } while (endMs > wantFromMs);
+  return pages;
+}
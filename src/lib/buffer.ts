@@ -12,9 +12,27 @@ export class TimeSeries {
 
   push(p: PricePoint) {
     this.buf.push(p);
+    this.trim(p.t);
+  }
+
+  // Merge points that may be older than (or interleaved with) the buffer, e.g. ticks rehydrated
+  // from storage after live ones already arrived. Existing points win on equal timestamps.
+  merge(points: PricePoint[]) {
+    if (!points.length) return;
+    const sorted = [...this.buf, ...points].sort((a, b) => a.t - b.t);
+    const out: PricePoint[] = [];
+    for (const p of sorted) {
+      if (out.length && out[out.length - 1].t === p.t) continue;
+      out.push(p);
+    }
+    this.buf = out;
+    this.trim(out[out.length - 1].t);
+  }
+
+  private trim(latestTs: number) {
     // Trim by age first (if configured)
     if (this.maxAgeMs != null) {
-      const cutoff = p.t - this.maxAgeMs;
+      const cutoff = latestTs - this.maxAgeMs;
       // Find first index with t >= cutoff (lower_bound)
       let lo = 0,
         hi = this.buf.length - 1,
@@ -107,3 +125,28 @@ export function lerpAt(series: TimeSeries, ts: number): PricePoint | undefined {
   const a = (ts - prev.t) / (next.t - prev.t);
   return { t: ts, p: prev.p + a * (next.p - prev.p) };
 }
+
+// Combine coarse history backfill with live ticks. Backfill points are dropped wherever the live
+// series already has coverage (same timestamp, or between two live ticks at most `maxGapMs` apart),
+// so rehydrated ticks don't get interleaved with duplicate minute samples.
+export function mergeBackfill(backfill: PricePoint[], live: PricePoint[], maxGapMs = 60_000): PricePoint[] {
+  if (!live.length) return backfill;
+  if (!backfill.length) return live;
+  const kept = backfill.filter((b) => {
+    let lo = 0,
+      hi = live.length - 1,
+      i = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (live[mid].t <= b.t) {
+        i = mid;
+        lo = mid + 1;
+      } else hi = mid - 1;
+    }
+    const prev = i >= 0 ? live[i] : undefined;
+    const next = live[i + 1];
+    if (prev && prev.t === b.t) return false;
+    return !(prev && next && next.t - prev.t <= maxGapMs);
+  });
+  return [...kept, ...live].sort((a, b) => a.t - b.t);
+}
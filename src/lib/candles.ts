@@ -1,23 +1,31 @@
 import type { Candle, PricePoint } from "./types";
+import type { BucketAlign } from "./timeframes";
 
 // Build OHLC candles from raw price points. Assumptions:
 // - points are in ms timestamps, unsorted allowed (we'll sort)
-// - intervalMs > 0
+// - `align` decides bucket boundaries (fixedBuckets for plain epoch multiples, alignBuckets for
+//   timeframes anchored to a time zone)
 // Enhancements over naive version:
 //   * If first trade in a bucket isn't at exact bucket start, we still derive OPEN from first trade inside bucket.
 //   * If there is a gap (no trades) between buckets we create a synthetic doji candle that carries forward last close
 //     so the chart shows continuity rather than temporal holes (optional: enabled by default via fillGaps).
 //   * Buckets returned sorted by time.
-export function buildCandles(points: PricePoint[], intervalMs: number, opts?: { fillGaps?: boolean }): Candle[] {
-  if (!intervalMs || intervalMs <= 0) return [];
+//   * Points carrying a `size` (trade fills) add to the bucket's volume.
+export function buildCandles(points: PricePoint[], align: BucketAlign, opts?: { fillGaps?: boolean }): Candle[] {
   if (!points.length) return [];
   const fillGaps = opts?.fillGaps !== false; // default true
   // Sort by time ascending
   const sorted = [...points].sort((a, b) => a.t - b.t);
   const bucketMap = new Map<number, Candle>();
-  // Track candles per bucket
-  for (const { t, p } of sorted) {
-    const bucketStart = Math.floor(t / intervalMs) * intervalMs;
+  // Track candles per bucket; points are sorted, so the current bucket's bounds are reused until a
+  // point falls past them (zone-aligned floors are comparatively expensive)
+  let bucketStart = NaN;
+  let bucketEnd = NaN;
+  for (const { t, p, size } of sorted) {
+    if (!(t >= bucketStart && t < bucketEnd)) {
+      bucketStart = align.floor(t);
+      bucketEnd = align.next(bucketStart);
+    }
     let candle = bucketMap.get(bucketStart);
     if (!candle) {
       candle = { t: bucketStart, open: p, high: p, low: p, close: p };
@@ -27,6 +35,7 @@ export function buildCandles(points: PricePoint[], intervalMs: number, opts?: {
       candle.low = Math.min(candle.low, p);
       candle.close = p;
     }
+    if (size != null) candle.volume = (candle.volume ?? 0) + size;
   }
   const candles = Array.from(bucketMap.values()).sort((a, b) => a.t - b.t);
   if (!fillGaps || candles.length === 0) return candles;
@@ -37,13 +46,50 @@ export function buildCandles(points: PricePoint[], intervalMs: number, opts?: {
     if (i === candles.length - 1) break;
     const cur = candles[i];
     const next = candles[i + 1];
-    let expected = cur.t + intervalMs;
+    let expected = align.next(cur.t);
     while (expected < next.t) {
       // carry forward last close
       const price = cur.close;
-      filled.push({ t: expected, open: price, high: price, low: price, close: price });
-      expected += intervalMs;
+      filled.push({ t: expected, open: price, high: price, low: price, close: price, synthetic: true });
+      expected = align.next(expected);
     }
   }
   return filled;
 }
+
+// Sum fill sizes into the matching candle buckets. Price snapshots drive OHLC; fills only add volume,
+// so buckets without a candle are ignored.
+export function applyVolume(candles: Candle[], fills: PricePoint[], align: BucketAlign): Candle[] {
+  if (!fills.length || !candles.length) return candles;
+  const volumeByBucket = new Map<number, number>();
+  for (const { t, size } of fills) {
+    if (!size) continue;
+    const bucketStart = align.floor(t);
+    volumeByBucket.set(bucketStart, (volumeByBucket.get(bucketStart) ?? 0) + size);
+  }
+  if (volumeByBucket.size === 0) return candles;
+  return candles.map((c) => {
+    const v = volumeByBucket.get(c.t);
+    return v ? { ...c, volume: (c.volume ?? 0) + v } : c;
+  });
+}
+
+// Heikin-Ashi transform of regular candles:
+//   close = (O + H + L + C) / 4, open = midpoint of the previous HA body (first: (O + C) / 2),
+//   high/low extended to cover the HA body. Volume and synthetic flags carry through.
+export function heikinAshi(candles: Candle[]): Candle[] {
+  const out: Candle[] = [];
+  for (const c of candles) {
+    const prev = out[out.length - 1];
+    const close = (c.open + c.high + c.low + c.close) / 4;
+    const open = prev ? (prev.open + prev.close) / 2 : (c.open + c.close) / 2;
+    out.push({
+      ...c,
+      open,
+      close,
+      high: Math.max(c.high, open, close),
+      low: Math.min(c.low, open, close),
+    });
+  }
+  return out;
+}
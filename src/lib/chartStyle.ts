@@ -0,0 +1,21 @@
+// Main series style for the price chart. Candle styles plot bucketed OHLC; line styles plot the
+// delayed tick series directly.
+export const CHART_STYLES = ["candles", "heikin-ashi", "line", "area", "step"] as const;
+export type ChartStyle = (typeof CHART_STYLES)[number];
+
+export const CHART_STYLE_LABELS: Record<ChartStyle, string> = {
+  candles: "Candles",
+  "heikin-ashi": "Heikin-Ashi",
+  line: "Line",
+  area: "Area",
+  step: "Step",
+};
+
+export const isLineStyle = (s: ChartStyle) => s === "line" || s === "area" || s === "step";
+
+// `style=` URL param; accepts `ha` as shorthand for Heikin-Ashi.
+export function parseChartStyle(raw: string | null | undefined): ChartStyle | undefined {
+  const s = (raw ?? "").toLowerCase();
+  if (s === "ha") return "heikin-ashi";
+  return (CHART_STYLES as readonly string[]).includes(s) ? (s as ChartStyle) : undefined;
+}
@@ -0,0 +1,43 @@
+import type { OrderBook } from "./types";
+
+export type DepthPoint = { price: number; cum: number };
+export type Depth = { mid: number; bids: DepthPoint[]; asks: DepthPoint[]; maxCum: number };
+
+// Spoiler-safe: last snapshot with t <= ts (snapshots sorted by t ascending). Works for any
+// timestamped snapshot (order books, top-of-book pairs).
+export function bookAtOrBefore<T extends { t: number }>(snapshots: T[], ts: number): T | undefined {
+  let lo = 0,
+    hi = snapshots.length - 1,
+    ans = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (snapshots[mid].t <= ts) {
+      ans = mid;
+      lo = mid + 1;
+    } else hi = mid - 1;
+  }
+  return ans >= 0 ? snapshots[ans] : undefined;
+}
+
+// Cumulative size walking away from the touch, limited to levels within `range` of the mid.
+// Bids run from best bid downward, asks from best ask upward.
+export function cumulativeDepth(book: OrderBook, range = 0.1): Depth | undefined {
+  const bestBid = book.bids[0]?.price;
+  const bestAsk = book.asks[0]?.price;
+  if (bestBid == null && bestAsk == null) return undefined;
+  const mid = bestBid != null && bestAsk != null ? (bestBid + bestAsk) / 2 : (bestBid ?? bestAsk ?? 0);
+  const walk = (levels: OrderBook["bids"], inRange: (p: number) => boolean) => {
+    const out: DepthPoint[] = [];
+    let cum = 0;
+    for (const l of levels) {
+      if (!inRange(l.price)) break;
+      cum += l.size;
+      out.push({ price: l.price, cum });
+    }
+    return out;
+  };
+  const bids = walk(book.bids, (p) => p >= mid - range);
+  const asks = walk(book.asks, (p) => p <= mid + range);
+  const maxCum = Math.max(bids.at(-1)?.cum ?? 0, asks.at(-1)?.cum ?? 0);
+  return { mid, bids, asks, maxCum };
+}
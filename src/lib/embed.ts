@@ -0,0 +1,96 @@
+import { DEFAULT_TIME_ZONE, parseTf, parseTimeZone, type TF } from "./timeframes";
+import { parsePricingModel, DEFAULT_PRICING_MODEL, type PricingModel } from "./pricing";
+import { parseOdds, type OddsDisplay } from "./format";
+
+// Overlay (OBS browser source) URL format, everything optional except `url`:
+//   /embed?url=<market>&show=question,percent,chart,status&bg=transparent&w=640&h=360&scale=1.5
+//          &layout=stack&align=center&delay=30&tf=5&tz=UTC&pov=yes&outcome=<key>&model=mid&chart=160
+//          &odds=american&precision=0
+//   show    widgets in display order (logo, question, percent, chart, status)
+//   bg      transparent | green | blue | magenta | a hex colour without `#` (chroma-key or solid)
+//   w / h   fixed pixel size of the overlay; without them it fills the browser source
+//   scale   font scale, 0.5–4 (scales all text and spacing)
+//   layout  stack (one column) or row (percent beside the chart)
+//   chart   chart height in px; with a fixed `h` and no `chart`, the chart takes the leftover height
+//   odds    percent | american | decimal | fractional, for the readout and chart labels (`precision` as on the main page)
+// Theme params (theme, accent, up, down, font, logo) apply as on the other pages; `bg` still wins for the background.
+
+export const EMBED_WIDGETS = ["logo", "question", "percent", "chart", "status"] as const;
+export type EmbedWidget = (typeof EMBED_WIDGETS)[number];
+
+export type EmbedLayout = "stack" | "row";
+export type EmbedAlign = "left" | "center" | "right";
+
+export const CHROMA_KEYS: Record<string, string> = {
+  green: "#00b140",
+  blue: "#0047bb",
+  magenta: "#ff00ff",
+};
+
+export type EmbedConfig = {
+  url: string;
+  widgets: EmbedWidget[];
+  background: string; // CSS colour; "transparent" by default
+  width?: number;
+  height?: number;
+  scale: number;
+  layout: EmbedLayout;
+  align: EmbedAlign;
+  chartHeight?: number;
+  delaySec: number;
+  tf: TF;
+  timeZone: string;
+  pov: "YES" | "NO";
+  outcome?: string;
+  model: PricingModel;
+  odds: OddsDisplay;
+};
+
+const DEFAULT_WIDGETS: EmbedWidget[] = ["question", "percent", "chart"];
+const MAX_PX = 4096;
+
+const intParam = (raw: string | null, min: number, max: number): number | undefined => {
+  const n = Number.parseInt(raw ?? "");
+  return Number.isNaN(n) ? undefined : Math.max(min, Math.min(max, n));
+};
+
+function parseBackground(raw: string | null): string {
+  const s = (raw ?? "").trim().toLowerCase();
+  if (s in CHROMA_KEYS) return CHROMA_KEYS[s];
+  if (/^#?([0-9a-f]{3}|[0-9a-f]{6})$/.test(s)) return s.startsWith("#") ? s : `#${s}`;
+  return "transparent";
+}
+
+function parseWidgets(raw: string | null): EmbedWidget[] {
+  if (!raw) return DEFAULT_WIDGETS;
+  const picked = raw
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter((s): s is EmbedWidget => (EMBED_WIDGETS as readonly string[]).includes(s));
+  return picked.length ? [...new Set(picked)] : DEFAULT_WIDGETS;
+}
+
+export function parseEmbed(qs: URLSearchParams): EmbedConfig {
+  const scale = Number.parseFloat(qs.get("scale") ?? "");
+  const pov = (qs.get("pov") ?? "").toUpperCase();
+  const layout = (qs.get("layout") ?? "").toLowerCase();
+  const align = (qs.get("align") ?? "").toLowerCase();
+  return {
+    url: qs.get("url") ?? "",
+    widgets: parseWidgets(qs.get("show")),
+    background: parseBackground(qs.get("bg")),
+    width: intParam(qs.get("w"), 50, MAX_PX),
+    height: intParam(qs.get("h"), 50, MAX_PX),
+    scale: Number.isFinite(scale) ? Math.max(0.5, Math.min(4, scale)) : 1,
+    layout: layout === "row" ? "row" : "stack",
+    align: align === "left" || align === "right" ? align : "center",
+    chartHeight: intParam(qs.get("chart"), 40, MAX_PX),
+    delaySec: intParam(qs.get("delay"), 0, 600) ?? 30,
+    tf: parseTf(qs.get("tf")) ?? 5,
+    timeZone: parseTimeZone(qs.get("tz")) ?? DEFAULT_TIME_ZONE,
+    pov: pov === "NO" ? "NO" : "YES",
+    outcome: qs.get("outcome") || undefined,
+    model: parsePricingModel(qs.get("model")) ?? DEFAULT_PRICING_MODEL,
+    odds: parseOdds(qs),
+  };
+}
@@ -0,0 +1,91 @@
+import { buildCandles } from "./candles";
+import { DEFAULT_TIME_ZONE, alignBuckets } from "./timeframes";
+import type { Candle, PricePoint } from "./types";
+
+// Data export shared by the in-app export and /api/export: raw points and candles for both the
+// YES and NO series, with ISO timestamps. JSON carries everything; CSV is one table (ticks or candles).
+
+export const EXPORT_FORMATS = ["csv", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+export const EXPORT_DATA = ["ticks", "candles"] as const;
+export type ExportData = (typeof EXPORT_DATA)[number];
+
+type Side = "yes" | "no";
+export type ExportTick = { time: string; t: number; p: number };
+export type ExportCandle = Omit<Candle, "t"> & { time: string; t: number };
+export type ExportPayload = {
+  meta: {
+    generatedAt: string;
+    tfMinutes: number;
+    timeZone: string;
+    cutoff?: string;
+    yesTokenId?: string;
+    noTokenId?: string;
+  };
+  ticks: Record<Side, ExportTick[]>;
+  candles: Record<Side, ExportCandle[]>;
+};
+
+const iso = (t: number) => new Date(t).toISOString();
+
+export function buildExport({
+  yes,
+  no,
+  tfMinutes,
+  timeZone = DEFAULT_TIME_ZONE,
+  cutoffTs,
+  yesTokenId,
+  noTokenId,
+}: {
+  yes: PricePoint[];
+  no: PricePoint[];
+  tfMinutes: number;
+  timeZone?: string; // zone hour / day / week candles are aligned to
+  cutoffTs?: number; // drop anything newer (the client passes now - delay)
+  yesTokenId?: string;
+  noTokenId?: string;
+}): ExportPayload {
+  const cut = (pts: PricePoint[]) =>
+    (cutoffTs != null ? pts.filter((p) => p.t <= cutoffTs) : [...pts]).sort((a, b) => a.t - b.t);
+  const ticks = (pts: PricePoint[]) => pts.map((p) => ({ time: iso(p.t), t: p.t, p: p.p }));
+  const align = alignBuckets(tfMinutes, timeZone);
+  const candles = (pts: PricePoint[]) => buildCandles(pts, align).map((c) => ({ ...c, time: iso(c.t) }));
+  const y = cut(yes);
+  const n = cut(no);
+  return {
+    meta: {
+      generatedAt: iso(Date.now()),
+      tfMinutes,
+      timeZone,
+      cutoff: cutoffTs != null ? iso(cutoffTs) : undefined,
+      yesTokenId,
+      noTokenId,
+    },
+    ticks: { yes: ticks(y), no: ticks(n) },
+    candles: { yes: candles(y), no: candles(n) },
+  };
+}
+
+export function toCsv(payload: ExportPayload, data: ExportData): string {
+  const sides: Side[] = ["yes", "no"];
+  if (data === "ticks") {
+    const rows = sides.flatMap((s) => payload.ticks[s].map((r) => `${r.time},${s},${r.p}`));
+    return ["time,series,price", ...rows].join("\n") + "\n";
+  }
+  const rows = sides.flatMap((s) =>
+    payload.candles[s].map(
+      (c) => `${c.time},${s},${c.open},${c.high},${c.low},${c.close},${c.volume ?? ""},${c.synthetic ? 1 : 0}`,
+    ),
+  );
+  return ["time,series,open,high,low,close,volume,synthetic", ...rows].join("\n") + "\n";
+}
+
+export function exportFilename(base: string, data: ExportData | "all", format: ExportFormat): string {
+  const safe =
+    base
+      .replace(/[^a-z0-9-]+/gi, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "market";
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
+  return `${safe}-${data}-${stamp}.${format}`;
+}
@@ -0,0 +1,41 @@
+import type { FeedTransport } from "./useMarketWS";
+
+// Feed health, derived from what useMarketWS reports plus the current time:
+//   connecting -> nothing received yet
+//   live       -> WebSocket up, data fresh, no recent failures
+//   degraded   -> data fresh, but on a fallback transport or after recent failures
+//   stale      -> nothing received for STALE_MS (the displayed number may be frozen)
+//   offline    -> browser offline, or nothing received for OFFLINE_MS
+// "Received" means any successful frame or response (WS heartbeats included), not just price changes,
+// so a quiet market on a healthy socket stays live.
+export type FeedHealth = "connecting" | "live" | "degraded" | "stale" | "offline";
+
+export const STALE_MS = 15_000;
+export const OFFLINE_MS = 60_000;
+// Before any data arrives: this many failures in a row (socket, stream and polls combined) means offline.
+export const OFFLINE_FAILURES = 5;
+
+export type FeedStats = {
+  transport: FeedTransport;
+  lastOkAt?: number; // last successful frame / response
+  failures: number; // consecutive failed attempts across transports; reset by any success
+  online: boolean;
+};
+
+export function feedHealth(stats: FeedStats, now: number): FeedHealth {
+  if (!stats.online) return "offline";
+  if (stats.lastOkAt == null) return stats.failures >= OFFLINE_FAILURES ? "offline" : "connecting";
+  const age = now - stats.lastOkAt;
+  if (age > OFFLINE_MS) return "offline";
+  if (age > STALE_MS) return "stale";
+  if (stats.transport !== "ws" || stats.failures > 0) return "degraded";
+  return "live";
+}
+
+export const FEED_HEALTH_LABELS: Record<FeedHealth, string> = {
+  connecting: "Connecting…",
+  live: "Live feed",
+  degraded: "Degraded feed",
+  stale: "Data stale",
+  offline: "Offline",
+};
@@ -17,3 +17,100 @@ export function formatDuration(ms: number): string {
   if (h) return parts.slice(0, 3).join(" ");
   return parts.slice(Math.max(0, parts.length - 2)).join(" ");
 }
+
+// How probabilities are shown to viewers (`odds=` URL param):
+//   percent    -> implied probability, 62.5%
+//   american   -> moneyline: underdogs +150 (profit on 100 staked), favourites -200 (stake to win 100)
+//   decimal    -> total return per unit staked, 2.50
+//   fractional -> profit per unit staked, 3/2
+// `precision` is decimal places, except for fractional where it caps the denominator at 10^precision.
+export const ODDS_FORMATS = ["percent", "american", "decimal", "fractional"] as const;
+export type OddsFormat = (typeof ODDS_FORMATS)[number];
+export type OddsDisplay = { format: OddsFormat; precision?: number };
+
+export const DEFAULT_ODDS: OddsDisplay = { format: "percent" };
+export const MAX_ODDS_PRECISION = 4;
+
+export const ODDS_FORMAT_LABELS: Record<OddsFormat, string> = {
+  percent: "Percent",
+  american: "American",
+  decimal: "Decimal",
+  fractional: "Fractional",
+};
+
+const DEFAULT_PRECISION: Record<OddsFormat, number> = { percent: 1, american: 0, decimal: 2, fractional: 1 };
+const MAX_FRACTION_PRECISION = 3;
+
+const ODDS_ALIASES: Record<string, OddsFormat> = {
+  pct: "percent",
+  implied: "percent",
+  us: "american",
+  moneyline: "american",
+  ml: "american",
+  dec: "decimal",
+  eu: "decimal",
+  frac: "fractional",
+  uk: "fractional",
+};
+
+// `odds=` URL param; accepts the short names above as well.
+export function parseOddsFormat(raw: string | null | undefined): OddsFormat | undefined {
+  const s = (raw ?? "").toLowerCase();
+  if ((ODDS_FORMATS as readonly string[]).includes(s)) return s as OddsFormat;
+  return ODDS_ALIASES[s];
+}
+
+// `precision=` URL param: a whole number of digits, 0 to MAX_ODDS_PRECISION.
+export function parseOddsPrecision(raw: string | null | undefined): number | undefined {
+  if (raw == null || !/^\d+$/.test(raw.trim())) return undefined;
+  return Math.min(MAX_ODDS_PRECISION, Number(raw));
+}
+
+// Both odds params from a query string; unknown formats fall back to percent.
+export function parseOdds(qs: URLSearchParams): OddsDisplay {
+  return {
+    format: parseOddsFormat(qs.get("odds")) ?? DEFAULT_ODDS.format,
+    precision: parseOddsPrecision(qs.get("precision")),
+  };
+}
+
+// Writes the odds params, leaving defaults out of the URL.
+export function writeOdds(params: URLSearchParams, odds: OddsDisplay) {
+  if (odds.format !== DEFAULT_ODDS.format) params.set("odds", odds.format);
+  else params.delete("odds");
+  if (odds.precision != null) params.set("precision", String(odds.precision));
+  else params.delete("precision");
+}
+
+// Closest n/d to x with d <= maxDen and n >= 1, so long-odds favourites read 1/10 rather than 0/1.
+function toFraction(x: number, maxDen: number): [number, number] {
+  let best: [number, number] = [Math.max(1, Math.round(x)), 1];
+  let bestErr = Math.abs(x - best[0]);
+  for (let d = 2; d <= maxDen && bestErr > 0; d++) {
+    const n = Math.max(1, Math.round(x * d));
+    const err = Math.abs(x - n / d);
+    if (err < bestErr) {
+      best = [n, d];
+      bestErr = err;
+    }
+  }
+  return best;
+}
+
+// Probability (0..1) in the given format. Odds formats have no value at 0 or 1, which show as "—".
+export function formatOdds(p: number, odds: OddsDisplay = DEFAULT_ODDS): string {
+  if (!Number.isFinite(p)) return "—";
+  const digits = odds.precision ?? DEFAULT_PRECISION[odds.format];
+  if (odds.format === "percent") return `${(p * 100).toFixed(digits)}%`;
+  if (p <= 0 || p >= 1) return "—";
+  switch (odds.format) {
+    case "american":
+      return p > 0.5 ? `-${((p / (1 - p)) * 100).toFixed(digits)}` : `+${(((1 - p) / p) * 100).toFixed(digits)}`;
+    case "decimal":
+      return (1 / p).toFixed(digits);
+    case "fractional": {
+      const [n, d] = toFraction((1 - p) / p, 10 ** Math.min(digits, MAX_FRACTION_PRECISION));
+      return `${n}/${d}`;
+    }
+  }
+}
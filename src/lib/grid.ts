@@ -0,0 +1,59 @@
+import { parseTf, type TF } from "./timeframes";
+
+// Grid dashboard URL format:
+//   ?layout=2x2&url=<market A>&tile=30_5_yes&url=<market B>&tile=0_15_no_<outcome>
+// `url` and `tile` are repeated and paired by position. A tile entry is `delay_tf_pov[_outcome]`;
+// missing or malformed entries fall back to the defaults below.
+
+export type GridLayout = "2x2" | "3x3";
+export const GRID_LAYOUTS: Record<GridLayout, { cols: number; max: number }> = {
+  "2x2": { cols: 2, max: 4 },
+  "3x3": { cols: 3, max: 9 },
+};
+
+export type TileConfig = {
+  url: string;
+  delaySec: number;
+  tf: TF;
+  pov: "YES" | "NO";
+  outcome?: string;
+};
+
+export const DEFAULT_TILE: Omit<TileConfig, "url"> = { delaySec: 30, tf: 5, pov: "YES" };
+
+function parseTile(url: string, raw: string | undefined): TileConfig {
+  const tile: TileConfig = { url, ...DEFAULT_TILE };
+  if (!raw) return tile;
+  const [dStr, tfStr, povStr, ...rest] = raw.split("_");
+  const d = Number.parseInt(dStr ?? "");
+  if (!Number.isNaN(d)) tile.delaySec = Math.max(0, Math.min(600, d));
+  const tfParsed = parseTf(tfStr);
+  if (tfParsed != null) tile.tf = tfParsed;
+  const pov = (povStr ?? "").toUpperCase();
+  if (pov === "YES" || pov === "NO") tile.pov = pov;
+  const outcome = rest.join("_");
+  if (outcome) tile.outcome = outcome;
+  return tile;
+}
+
+export function parseGrid(qs: URLSearchParams): { layout: GridLayout; tiles: TileConfig[] } {
+  const urls = qs.getAll("url").filter(Boolean);
+  const rawTiles = qs.getAll("tile");
+  const layoutStr = qs.get("layout") ?? "";
+  const layout: GridLayout = layoutStr in GRID_LAYOUTS ? (layoutStr as GridLayout) : urls.length > 4 ? "3x3" : "2x2";
+  const tiles = urls.slice(0, GRID_LAYOUTS[layout].max).map((u, i) => parseTile(u, rawTiles[i]));
+  return { layout, tiles };
+}
+
+// Replace the grid params on `params` in place, leaving unrelated params (e.g. `mode`) untouched.
+export function writeGrid(params: URLSearchParams, layout: GridLayout, tiles: TileConfig[]) {
+  params.delete("url");
+  params.delete("tile");
+  params.set("layout", layout);
+  for (const t of tiles) {
+    params.append("url", t.url);
+    const parts = [String(t.delaySec), String(t.tf), t.pov.toLowerCase()];
+    if (t.outcome) parts.push(t.outcome);
+    params.append("tile", parts.join("_"));
+  }
+}
@@ -0,0 +1,104 @@
+import type { Candle } from "./types";
+
+// Chart overlays computed from candle closes. All functions are pure and return points only where
+// the indicator is defined (e.g. SMA(20) starts at the 20th candle).
+
+export type LinePoint = { t: number; value: number };
+
+export const INDICATOR_IDS = ["sma", "ema", "bb", "vwap"] as const;
+export type IndicatorId = (typeof INDICATOR_IDS)[number];
+
+export const INDICATORS: Record<IndicatorId, { label: string; color: string }> = {
+  sma: { label: "SMA 20", color: "#f59e0b" },
+  ema: { label: "EMA 20", color: "#3b82f6" },
+  bb: { label: "Bollinger 20/2", color: "#a855f7" },
+  vwap: { label: "VWAP", color: "#06b6d4" },
+};
+
+export function sma(candles: Candle[], period = 20): LinePoint[] {
+  if (period <= 0) return [];
+  const out: LinePoint[] = [];
+  let sum = 0;
+  for (let i = 0; i < candles.length; i++) {
+    sum += candles[i].close;
+    if (i >= period) sum -= candles[i - period].close;
+    if (i >= period - 1) out.push({ t: candles[i].t, value: sum / period });
+  }
+  return out;
+}
+
+// Seeded with the SMA of the first `period` closes.
+export function ema(candles: Candle[], period = 20): LinePoint[] {
+  if (period <= 0 || candles.length < period) return [];
+  const k = 2 / (period + 1);
+  let prev = 0;
+  for (let i = 0; i < period; i++) prev += candles[i].close;
+  prev /= period;
+  const out: LinePoint[] = [{ t: candles[period - 1].t, value: prev }];
+  for (let i = period; i < candles.length; i++) {
+    prev = candles[i].close * k + prev * (1 - k);
+    out.push({ t: candles[i].t, value: prev });
+  }
+  return out;
+}
+
+// Middle band = SMA; upper/lower = SMA ± mult × population std dev over the same window.
+export function bollinger(
+  candles: Candle[],
+  period = 20,
+  mult = 2,
+): { upper: LinePoint[]; middle: LinePoint[]; lower: LinePoint[] } {
+  const middle = sma(candles, period);
+  const upper: LinePoint[] = [];
+  const lower: LinePoint[] = [];
+  middle.forEach((m, j) => {
+    const end = j + period; // window is candles[j, end)
+    let variance = 0;
+    for (let i = j; i < end; i++) variance += (candles[i].close - m.value) ** 2;
+    const sd = Math.sqrt(variance / period);
+    upper.push({ t: m.t, value: m.value + mult * sd });
+    lower.push({ t: m.t, value: m.value - mult * sd });
+  });
+  return { upper, middle, lower };
+}
+
+// Cumulative VWAP over the candles, using the typical price (H+L+C)/3. Empty when no candle has volume.
+export function vwap(candles: Candle[]): LinePoint[] {
+  const out: LinePoint[] = [];
+  let pv = 0;
+  let vol = 0;
+  for (const c of candles) {
+    const v = c.volume ?? 0;
+    pv += ((c.high + c.low + c.close) / 3) * v;
+    vol += v;
+    if (vol > 0) out.push({ t: c.t, value: pv / vol });
+  }
+  return out;
+}
+
+// `ind=sma,vwap` URL param <-> ids (unknown entries dropped, order normalized).
+export function parseIndicators(raw: string | null | undefined): IndicatorId[] {
+  const wanted = new Set((raw ?? "").toLowerCase().split(","));
+  return INDICATOR_IDS.filter((id) => wanted.has(id));
+}
+
+// Line series to draw for the enabled indicators; Bollinger contributes three lines.
+export function indicatorLines(
+  candles: Candle[],
+  ids: IndicatorId[],
+): Array<{ key: string; color: string; dashed?: boolean; points: LinePoint[] }> {
+  const lines: Array<{ key: string; color: string; dashed?: boolean; points: LinePoint[] }> = [];
+  for (const id of ids) {
+    const { color } = INDICATORS[id];
+    if (id === "sma") lines.push({ key: id, color, points: sma(candles) });
+    if (id === "ema") lines.push({ key: id, color, points: ema(candles) });
+    if (id === "vwap") lines.push({ key: id, color, points: vwap(candles) });
+    if (id === "bb") {
+      const { upper, middle, lower } = bollinger(candles);
+      lines.push({ key: "bb-upper", color, dashed: true, points: upper });
+      lines.push({ key: "bb-middle", color, points: middle });
+      lines.push({ key: "bb-lower", color, dashed: true, points: lower });
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,148 @@
+import type { TOB } from "./types";
+
+// Parsing + state updates for the CLOB "market" WebSocket channel.
+// Messages arrive either as a single event object or an array of events; the server also
+// answers our heartbeat "PING" frames with a bare "PONG" string.
+//   * book            -> full snapshot of bids/asks for one asset
+//   * price_change    -> incremental level updates (newer payloads also carry best_bid/best_ask)
+//   * last_trade_price-> price of the most recent fill
+// Anything else (tick_size_change, unknown events) is ignored.
+
+export const DEFAULT_MARKET_WS_URL = "wss://ws-subscriptions-clob.polymarket.com/ws/market";
+
+type Level = { price: string | number; size: string | number };
+type PriceChange = {
+  asset_id?: string;
+  price: string | number;
+  size: string | number;
+  side: string;
+  best_bid?: string | number | null;
+  best_ask?: string | number | null;
+};
+type MarketEvent = {
+  event_type?: string;
+  asset_id?: string;
+  bids?: Level[];
+  asks?: Level[];
+  buys?: Level[];
+  sells?: Level[];
+  changes?: PriceChange[];
+  price_changes?: PriceChange[];
+  price?: string | number;
+  timestamp?: string | number;
+};
+
+// Price levels per side, keyed by price; size 0 removes the level.
+export type BookSide = Map<number, number>;
+export type BookLevels = { bids: BookSide; asks: BookSide };
+export type BookState = Record<string, BookLevels>;
+
+export function subscribeMessage(assetIds: string[]) {
+  return JSON.stringify({ assets_ids: assetIds, type: "market" });
+}
+
+const num = (v: unknown): number | undefined => {
+  if (v == null || v === "") return undefined;
+  const n = typeof v === "number" ? v : parseFloat(String(v));
+  return Number.isFinite(n) ? n : undefined;
+};
+
+function bestOf(side: BookSide, pick: "max" | "min"): number | undefined {
+  let best: number | undefined;
+  for (const [price, size] of side) {
+    if (size <= 0) continue;
+    if (best == null || (pick === "max" ? price > best : price < best)) best = price;
+  }
+  return best;
+}
+
+function setLevels(side: BookSide, levels: Level[] | undefined) {
+  side.clear();
+  for (const l of levels ?? []) {
+    const price = num(l.price);
+    const size = num(l.size);
+    if (price != null && size != null && size > 0) side.set(price, size);
+  }
+}
+
+// Parse a raw frame into a list of events. Returns [] for heartbeats or garbage.
+export function parseMarketFrame(raw: unknown): MarketEvent[] {
+  if (typeof raw !== "string") return [];
+  const s = raw.trim();
+  if (!s || s === "PONG") return [];
+  try {
+    const parsed = JSON.parse(s);
+    const arr = Array.isArray(parsed) ? parsed : [parsed];
+    return arr.filter((e): e is MarketEvent => Boolean(e) && typeof e === "object");
+  } catch {
+    return [];
+  }
+}
+
+// Apply one event to the book + TOB records. Only assets already present in `tob` are tracked.
+// Returns the asset ids whose TOB changed.
+export function applyMarketEvent(ev: MarketEvent, books: BookState, tob: Record<string, TOB>, now: number): string[] {
+  const touched = new Set<string>();
+  const bookFor = (id: string) => (books[id] ??= { bids: new Map(), asks: new Map() });
+
+  const refreshTob = (id: string) => {
+    const b = bookFor(id);
+    const t = tob[id];
+    t.bestBid = bestOf(b.bids, "max");
+    t.bestAsk = bestOf(b.asks, "min");
+    t.bidSize = t.bestBid != null ? b.bids.get(t.bestBid) : undefined;
+    t.askSize = t.bestAsk != null ? b.asks.get(t.bestAsk) : undefined;
+  };
+
+  switch (ev.event_type) {
+    case "book": {
+      const id = ev.asset_id;
+      if (!id || !tob[id]) break;
+      const b = bookFor(id);
+      setLevels(b.bids, ev.bids ?? ev.buys);
+      setLevels(b.asks, ev.asks ?? ev.sells);
+      refreshTob(id);
+      tob[id].updatedAt = now;
+      touched.add(id);
+      break;
+    }
+    case "price_change": {
+      for (const c of ev.price_changes ?? ev.changes ?? []) {
+        const id = c.asset_id ?? ev.asset_id;
+        if (!id || !tob[id]) continue;
+        const price = num(c.price);
+        const size = num(c.size);
+        if (price != null && size != null) {
+          const side = String(c.side).toUpperCase() === "BUY" ? bookFor(id).bids : bookFor(id).asks;
+          if (size > 0) side.set(price, size);
+          else side.delete(price);
+        }
+        refreshTob(id);
+        // Prefer the server's view of the touch when present; our level map may be partial.
+        const bb = num(c.best_bid);
+        const ba = num(c.best_ask);
+        if (bb != null) {
+          tob[id].bestBid = bb;
+          tob[id].bidSize = bookFor(id).bids.get(bb);
+        }
+        if (ba != null) {
+          tob[id].bestAsk = ba;
+          tob[id].askSize = bookFor(id).asks.get(ba);
+        }
+        tob[id].updatedAt = now;
+        touched.add(id);
+      }
+      break;
+    }
+    case "last_trade_price": {
+      const id = ev.asset_id;
+      const price = num(ev.price);
+      if (!id || !tob[id] || price == null) break;
+      tob[id].last = price;
+      tob[id].updatedAt = now;
+      touched.add(id);
+      break;
+    }
+  }
+  return Array.from(touched);
+}
@@ -0,0 +1,72 @@
+// What a user can paste to pick a market, normalized for /api/resolve:
+//   * event URLs        https://polymarket.com/event/<slug>[/<market-slug>]  (locale prefixes like /es/ allowed)
+//   * market URLs       https://polymarket.com/market/<slug>
+//   * condition ids     0x followed by 64 hex chars
+//   * CLOB token ids    long decimal strings
+//   * bare slugs        will-x-happen-by-2026
+// Query strings and fragments are ignored.
+
+export type MarketInput =
+  | { kind: "event"; slug: string; marketSlug?: string }
+  | { kind: "market"; slug: string }
+  | { kind: "slug"; slug: string }
+  | { kind: "condition"; conditionId: string }
+  | { kind: "token"; tokenId: string };
+
+const CONDITION_RE = /^0x[0-9a-f]{64}$/i;
+const TOKEN_RE = /^\d{20,}$/;
+const SLUG_RE = /^[a-z0-9][a-z0-9-]*$/i;
+const LOCALE_RE = /^[a-z]{2}(-[a-z]{2})?$/i;
+
+function fromPath(pathname: string): MarketInput | null {
+  const parts = pathname.split("/").filter(Boolean).map(decodeURIComponent);
+  if (parts.length > 1 && LOCALE_RE.test(parts[0])) parts.shift();
+  const [section, slug, sub] = parts;
+  if (section === "event" && slug) return { kind: "event", slug, marketSlug: sub || undefined };
+  if (section === "market" && slug) return { kind: "market", slug };
+  const last = parts.at(-1);
+  if (!last) return null;
+  return fromBare(last);
+}
+
+function fromBare(s: string): MarketInput | null {
+  if (CONDITION_RE.test(s)) return { kind: "condition", conditionId: s.toLowerCase() };
+  if (TOKEN_RE.test(s)) return { kind: "token", tokenId: s };
+  if (SLUG_RE.test(s)) return { kind: "slug", slug: s.toLowerCase() };
+  return null;
+}
+
+export function parseMarketInput(raw: string): MarketInput | null {
+  const s = raw.trim();
+  if (!s) return null;
+  const looksLikeUrl = /^https?:\/\//i.test(s) || /^([a-z0-9-]+\.)*polymarket\.com(\/|$)/i.test(s);
+  if (looksLikeUrl) {
+    try {
+      const url = new URL(/^https?:\/\//i.test(s) ? s : `https://${s}`);
+      return fromPath(url.pathname);
+    } catch {
+      return null;
+    }
+  }
+  return fromBare(s);
+}
+
+// Error codes returned by /api/resolve alongside `error`.
+export const RESOLVE_ERROR_CODES = ["INVALID_INPUT", "NOT_FOUND", "NO_BINARY_MARKETS", "UPSTREAM_ERROR"] as const;
+export type ResolveErrorCode = (typeof RESOLVE_ERROR_CODES)[number];
+
+export const RESOLVE_ERROR_MESSAGES: Record<ResolveErrorCode, string> = {
+  INVALID_INPUT: "That doesn't look like a Polymarket link, slug, condition ID or token ID.",
+  NOT_FOUND: "No Polymarket market or event matches that reference.",
+  NO_BINARY_MARKETS: "That event has no YES/NO markets this viewer can chart.",
+  UPSTREAM_ERROR: "Polymarket didn't respond. Try again in a moment.",
+};
+
+export class ResolveError extends Error {
+  readonly code: ResolveErrorCode;
+  constructor(code: ResolveErrorCode, message = RESOLVE_ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = "ResolveError";
+    this.code = code;
+  }
+}
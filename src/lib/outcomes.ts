@@ -0,0 +1,20 @@
+import type { MarketRef, OutcomeRef } from "./types";
+
+// Stable key for an outcome within its event (used in the `outcome=` URL param).
+export const outcomeKey = (o: OutcomeRef): string => o.slug || o.conditionId || o.yesTokenId;
+
+// Selected outcome by key, falling back to the first one.
+export function findOutcome(market: MarketRef | null, key: string | undefined): OutcomeRef | null {
+  if (!market || market.outcomes.length === 0) return null;
+  return market.outcomes.find((o) => outcomeKey(o) === key) ?? market.outcomes[0];
+}
+
+// YES/NO labels for display. In multi-outcome events YES means "this outcome wins".
+export function povLabels(
+  market: MarketRef | null,
+  outcome: OutcomeRef | null,
+): { yesLabel?: string; noLabel?: string } {
+  if (!market || !outcome) return {};
+  if (market.outcomes.length > 1) return { yesLabel: outcome.label, noLabel: `Not ${outcome.label}` };
+  return { yesLabel: outcome.yesLabel, noLabel: outcome.noLabel };
+}
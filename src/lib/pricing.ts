@@ -0,0 +1,95 @@
+import type { TOB } from "./types";
+
+// Probability models: how the displayed YES probability is derived from the two outcome books.
+// All functions are pure. NO is the complement of YES under the same model, except for the default
+// blended model, which keeps the original NO derivation (NO mid, else the inverted YES mid).
+//   blended -> average of the YES mid and the inverted NO mid (the original default)
+//   mid     -> midpoint of the merged book: YES levels plus NO levels mirrored to 1 - price
+//   last    -> last trade price (YES, else inverted NO), falling back to the merged mid
+//   micro   -> size-weighted microprice of the YES touch, falling back to the YES mid
+//   yes     -> YES book only (mid, else last trade, else whichever side is quoted)
+
+export const PRICING_MODELS = ["blended", "mid", "last", "micro", "yes"] as const;
+export type PricingModel = (typeof PRICING_MODELS)[number];
+export const DEFAULT_PRICING_MODEL: PricingModel = "blended";
+
+export const PRICING_MODEL_LABELS: Record<PricingModel, string> = {
+  blended: "Blended",
+  mid: "Midpoint",
+  last: "Last trade",
+  micro: "Microprice",
+  yes: "YES book",
+};
+
+// `model=` URL param.
+export function parsePricingModel(raw: string | null | undefined): PricingModel | undefined {
+  const s = (raw ?? "").toLowerCase();
+  return (PRICING_MODELS as readonly string[]).includes(s) ? (s as PricingModel) : undefined;
+}
+
+const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
+const ok = (n: number | undefined): n is number => n != null && Number.isFinite(n);
+
+export function midOf(t: TOB | undefined): number | undefined {
+  if (!t) return undefined;
+  const { bestBid: bb, bestAsk: ba, last } = t;
+  if (ok(bb) && ok(ba)) return (bb + ba) / 2;
+  if (ok(last)) return last;
+  if (ok(bb)) return bb;
+  if (ok(ba)) return ba;
+  return undefined;
+}
+
+// Touch of the merged book: a NO ask at q is a YES bid at 1 - q (and vice versa).
+function mergedMid(yes: TOB | undefined, no: TOB | undefined): number | undefined {
+  const bids = [yes?.bestBid, ok(no?.bestAsk) ? 1 - no.bestAsk : undefined].filter(ok);
+  const asks = [yes?.bestAsk, ok(no?.bestBid) ? 1 - no.bestBid : undefined].filter(ok);
+  const bid = bids.length ? Math.max(...bids) : undefined;
+  const ask = asks.length ? Math.min(...asks) : undefined;
+  if (ok(bid) && ok(ask)) return (bid + ask) / 2;
+  return bid ?? ask;
+}
+
+function microprice(t: TOB | undefined): number | undefined {
+  if (!t) return undefined;
+  const { bestBid: bb, bestAsk: ba, bidSize: bs, askSize: as } = t;
+  if (ok(bb) && ok(ba) && ok(bs) && ok(as) && bs + as > 0) return (bb * as + ba * bs) / (bs + as);
+  return undefined;
+}
+
+export function yesProbability(model: PricingModel, yes: TOB | undefined, no: TOB | undefined): number | undefined {
+  const invNo = (v: number | undefined) => (ok(v) ? 1 - v : undefined);
+  let p: number | undefined;
+  switch (model) {
+    case "blended": {
+      const my = midOf(yes);
+      const mn = midOf(no);
+      p = ok(my) && ok(mn) ? (my + (1 - mn)) / 2 : (my ?? invNo(mn));
+      break;
+    }
+    case "mid":
+      p = mergedMid(yes, no) ?? midOf(yes) ?? invNo(midOf(no));
+      break;
+    case "last":
+      p = yes?.last ?? invNo(no?.last) ?? mergedMid(yes, no);
+      break;
+    case "micro":
+      p = microprice(yes) ?? midOf(yes);
+      break;
+    case "yes":
+      p = midOf(yes);
+      break;
+  }
+  return ok(p) ? clamp01(p) : undefined;
+}
+
+export function noProbability(model: PricingModel, yes: TOB | undefined, no: TOB | undefined): number | undefined {
+  if (model === "blended") {
+    const mn = midOf(no);
+    const my = midOf(yes);
+    const p = ok(mn) ? mn : ok(my) ? 1 - my : undefined;
+    return ok(p) ? clamp01(p) : undefined;
+  }
+  const p = yesProbability(model, yes, no);
+  return p != null ? 1 - p : undefined;
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { TimeSeries } from "./buffer";
+import { advanceReplay, replayLimit } from "./replay";
+
+describe("replay clock", () => {
+  it("never shows a point newer than now - delay", () => {
+    const delayMs = 60_000;
+    let nowTs = 1_760_000_000_000;
+    const series = new TimeSeries();
+    // History up to the present, one point per second
+    for (let t = nowTs - 10 * 60_000; t <= nowTs; t += 1000) series.push({ t, p: 0.5 });
+    // Start replay two minutes back at the fastest speed; live data keeps arriving each tick
+    let ts = nowTs - 2 * 60_000;
+    for (let i = 0; i < 400; i++) {
+      nowTs += 250;
+      series.push({ t: nowTs, p: 0.6 });
+      ts = advanceReplay(ts, 250, 60, replayLimit(nowTs, delayMs));
+      const shown = series.atOrBefore(ts);
+      expect(ts).toBeLessThanOrEqual(nowTs - delayMs);
+      expect(shown!.t).toBeLessThanOrEqual(nowTs - delayMs);
+    }
+    // It catches up with the limit and stays there
+    expect(ts).toBe(nowTs - delayMs);
+  });
+
+  it("advances at speed while behind the limit", () => {
+    expect(advanceReplay(1000, 250, 10, 1_000_000)).toBe(3500);
+  });
+});
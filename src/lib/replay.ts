@@ -0,0 +1,31 @@
+// Replay mode: the display clock is a virtual time over the backfilled history instead of
+// now - delay. URL form: `replay=<unix seconds>` (also accepts ms or an ISO date) and `speed=10`.
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 30, 60] as const;
+export type ReplaySpeed = (typeof REPLAY_SPEEDS)[number];
+
+export function parseReplaySpeed(raw: string | null | undefined): ReplaySpeed | undefined {
+  const n = Number.parseInt(raw ?? "");
+  return (REPLAY_SPEEDS as readonly number[]).includes(n) ? (n as ReplaySpeed) : undefined;
+}
+
+// Returns ms, or undefined when the param is missing or unparseable.
+export function parseReplayStart(raw: string | null | undefined): number | undefined {
+  const s = (raw ?? "").trim();
+  if (!s) return undefined;
+  if (/^\d+$/.test(s)) {
+    const n = Number(s);
+    return n < 1e12 ? n * 1000 : n; // seconds vs ms
+  }
+  const t = Date.parse(s);
+  return Number.isNaN(t) ? undefined : t;
+}
+
+export const formatReplayStart = (ts: number) => String(Math.floor(ts / 1000));
+
+// Newest time replay may reach: the display delay still applies, so replay can't run into data a live
+// viewer wouldn't see yet.
+export const replayLimit = (nowTs: number, delayMs: number) => nowTs - delayMs;
+
+// Virtual time after `elapsedMs` of real time at `speed`, stopping at `limitTs`.
+export const advanceReplay = (ts: number, elapsedMs: number, speed: number, limitTs: number) =>
+  Math.min(limitTs, ts + elapsedMs * speed);
@@ -0,0 +1,178 @@
+import type { CSSProperties } from "react";
+
+// Theme presets plus per-venue overrides, all from the URL:
+//   ?theme=broadcast&accent=ff6600&up=00c853&down=ff1744&font=Inter&logo=https://venue.example/logo.png
+// Components style themselves with the `ink-*` scale (same shade numbers as Tailwind's neutral scale,
+// with `bg` / `fg` for black / white) and the `up`, `down` and `accent` colours. globals.css maps those
+// to CSS variables that default to the dark preset; `themeStyle` overrides them on a page's root element.
+// The chart can't read CSS, so it takes the Theme object itself.
+
+export const THEME_NAMES = ["dark", "light", "high-contrast", "broadcast"] as const;
+export type ThemeName = (typeof THEME_NAMES)[number];
+
+export const INK_SHADES = ["bg", "950", "900", "800", "700", "600", "500", "400", "300", "200", "fg"] as const;
+export type InkShade = (typeof INK_SHADES)[number];
+
+export type Theme = {
+  name: ThemeName;
+  ink: Record<InkShade, string>;
+  accent: string;
+  up: string;
+  down: string;
+  grid: string; // chart grid lines
+  font?: string;
+  logo?: string;
+};
+
+export const DEFAULT_THEME_NAME: ThemeName = "dark";
+
+// Colours are 6-digit hex so the chart can append an alpha byte.
+export const THEMES: Record<ThemeName, Theme> = {
+  dark: {
+    name: "dark",
+    ink: {
+      bg: "#000000",
+      "950": "#0a0a0a",
+      "900": "#171717",
+      "800": "#262626",
+      "700": "#404040",
+      "600": "#525252",
+      "500": "#737373",
+      "400": "#a3a3a3",
+      "300": "#cbd5e1",
+      "200": "#e2e8f0",
+      fg: "#ffffff",
+    },
+    accent: "#38bdf8",
+    up: "#10b981",
+    down: "#ef4444",
+    grid: "#1f2937",
+  },
+  light: {
+    name: "light",
+    ink: {
+      bg: "#ffffff",
+      "950": "#fafafa",
+      "900": "#f4f4f5",
+      "800": "#e4e4e7",
+      "700": "#d4d4d8",
+      "600": "#a1a1aa",
+      "500": "#71717a",
+      "400": "#52525b",
+      "300": "#3f3f46",
+      "200": "#18181b",
+      fg: "#000000",
+    },
+    accent: "#2563eb",
+    up: "#059669",
+    down: "#dc2626",
+    grid: "#e4e4e7",
+  },
+  // Pure black, white text and bright borders for projectors and low-vision viewing.
+  "high-contrast": {
+    name: "high-contrast",
+    ink: {
+      bg: "#000000",
+      "950": "#000000",
+      "900": "#000000",
+      "800": "#8a8a8a",
+      "700": "#b0b0b0",
+      "600": "#d0d0d0",
+      "500": "#e0e0e0",
+      "400": "#f0f0f0",
+      "300": "#ffffff",
+      "200": "#ffffff",
+      fg: "#ffffff",
+    },
+    accent: "#ffff00",
+    up: "#00ff66",
+    down: "#ff4d4d",
+    grid: "#333333",
+  },
+  // Deep navy with a warm accent, closer to a sports graphics package.
+  broadcast: {
+    name: "broadcast",
+    ink: {
+      bg: "#050b1a",
+      "950": "#0a1226",
+      "900": "#0f1a33",
+      "800": "#1c2a4a",
+      "700": "#2b3d63",
+      "600": "#41557f",
+      "500": "#6b7fa6",
+      "400": "#9aabcb",
+      "300": "#d5def0",
+      "200": "#eef3fb",
+      fg: "#ffffff",
+    },
+    accent: "#fbbf24",
+    up: "#22c55e",
+    down: "#f43f5e",
+    grid: "#16213b",
+  },
+};
+
+export const DEFAULT_THEME = THEMES[DEFAULT_THEME_NAME];
+
+// Query params that make up a theme; pages memoize on these so unrelated URL changes keep the same object.
+export const THEME_PARAMS = ["theme", "accent", "up", "down", "font", "logo"] as const;
+
+export function themeQuery(qs: URLSearchParams): string {
+  const picked = new URLSearchParams();
+  for (const k of THEME_PARAMS) {
+    const v = qs.get(k);
+    if (v) picked.set(k, v);
+  }
+  return picked.toString();
+}
+
+export function parseThemeName(raw: string | null | undefined): ThemeName | undefined {
+  const s = (raw ?? "").toLowerCase();
+  return (THEME_NAMES as readonly string[]).includes(s) ? (s as ThemeName) : undefined;
+}
+
+const parseHex = (raw: string | null): string | undefined => {
+  const m = /^#?([0-9a-f]{6}|[0-9a-f]{3})$/i.exec((raw ?? "").trim());
+  if (!m) return undefined;
+  const hex = m[1].length === 3 ? [...m[1]].map((c) => c + c).join("") : m[1];
+  return `#${hex.toLowerCase()}`;
+};
+
+// Font family names only (the font must be installed or already loaded); anything else is ignored.
+const parseFont = (raw: string | null): string | undefined => {
+  const s = (raw ?? "").trim();
+  return s && /^[\w -]{1,64}$/.test(s) ? s : undefined;
+};
+
+// http(s) or same-origin paths only, so a shared link can't inject other URL schemes.
+const parseLogo = (raw: string | null): string | undefined => {
+  const s = (raw ?? "").trim();
+  return /^(https?:\/\/|\/(?!\/))\S+$/i.test(s) ? s : undefined;
+};
+
+export function parseTheme(qs: URLSearchParams): Theme {
+  const base = THEMES[parseThemeName(qs.get("theme")) ?? DEFAULT_THEME_NAME];
+  return {
+    ...base,
+    accent: parseHex(qs.get("accent")) ?? base.accent,
+    up: parseHex(qs.get("up")) ?? base.up,
+    down: parseHex(qs.get("down")) ?? base.down,
+    font: parseFont(qs.get("font")),
+    logo: parseLogo(qs.get("logo")),
+  };
+}
+
+// CSS font stack with the theme font first; undefined keeps the layout font.
+export const themeFontFamily = (theme: Theme): string | undefined =>
+  theme.font ? `"${theme.font}", var(--font-geist-sans), sans-serif` : undefined;
+
+// Inline style for a page root: the CSS variables behind the ink / up / down / accent utilities.
+export function themeStyle(theme: Theme): CSSProperties {
+  const vars: Record<string, string> = {
+    "--theme-accent": theme.accent,
+    "--theme-up": theme.up,
+    "--theme-down": theme.down,
+  };
+  for (const shade of INK_SHADES) vars[`--theme-ink-${shade}`] = theme.ink[shade];
+  return { ...vars, fontFamily: themeFontFamily(theme) } as CSSProperties;
+}
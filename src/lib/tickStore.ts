@@ -0,0 +1,93 @@
+import type { PricePoint } from "./types";
+
+// IndexedDB persistence for live tick buffers, so a reload (or a TV browser crash) doesn't lose the
+// fine-grained series. Ticks are stored per series key (the outcome token id) as [key, t] -> p.
+// Every call degrades to a no-op when IndexedDB is unavailable (SSR, private mode, old browsers).
+
+const DB_NAME = "polymarket-viewer";
+const DB_VERSION = 1;
+const STORE = "ticks";
+
+type TickRow = { key: string; t: number; p: number };
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") return resolve(null);
+    try {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(STORE, { keyPath: ["key", "t"] });
+        store.createIndex("t", "t");
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        console.warn("[TickStore] open failed", req.error);
+        resolve(null);
+      };
+      req.onblocked = () => resolve(null);
+    } catch (e) {
+      console.warn("[TickStore] open failed", e);
+      resolve(null);
+    }
+  });
+  return dbPromise;
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Ticks for `key` with t >= sinceTs, ascending.
+export async function loadTicks(key: string, sinceTs: number): Promise<PricePoint[]> {
+  const db = await openDb();
+  if (!db) return [];
+  try {
+    const tx = db.transaction(STORE, "readonly");
+    const req = tx.objectStore(STORE).getAll(IDBKeyRange.bound([key, sinceTs], [key, Infinity]));
+    await done(tx);
+    return (req.result as TickRow[]).map(({ t, p }) => ({ t, p }));
+  } catch (e) {
+    console.warn("[TickStore] load failed", e);
+    return [];
+  }
+}
+
+export async function appendTicks(key: string, points: PricePoint[]): Promise<void> {
+  if (!points.length) return;
+  const db = await openDb();
+  if (!db) return;
+  try {
+    const tx = db.transaction(STORE, "readwrite");
+    const store = tx.objectStore(STORE);
+    for (const { t, p } of points) store.put({ key, t, p } satisfies TickRow);
+    await done(tx);
+  } catch (e) {
+    console.warn("[TickStore] write failed", e);
+  }
+}
+
+// Drop ticks older than `beforeTs` for every key (tokens that are no longer watched included).
+export async function pruneTicks(beforeTs: number): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+  try {
+    const tx = db.transaction(STORE, "readwrite");
+    const req = tx.objectStore(STORE).index("t").openCursor(IDBKeyRange.upperBound(beforeTs, true));
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return;
+      cursor.delete();
+      cursor.continue();
+    };
+    await done(tx);
+  } catch (e) {
+    console.warn("[TickStore] prune failed", e);
+  }
+}
@@ -1,4 +1,145 @@
-export const TIMEFRAME_MINUTES = [1, 2, 3, 4, 5, 7, 10, 15, 30, 60] as const;
-export type TF = (typeof TIMEFRAME_MINUTES)[number];
-export const TIMEFRAME_SET = new Set<number>(TIMEFRAME_MINUTES as unknown as number[]);
+// Candle timeframes in minutes. The presets are what the selector offers; `tf=` also accepts any whole
+// number of minutes up to MAX_TF_MINUTES, or a value with an m / h / d / w suffix ("90m", "4h", "1d").
+export const TIMEFRAME_MINUTES = [1, 2, 3, 4, 5, 7, 10, 15, 30, 60, 120, 240, 720, 1440, 10080] as const;
+export type TF = number;
+export const MAX_TF_MINUTES = 4 * 10080;
 export const tfToMs = (tf: TF): number => tf * 60_000;
+
+const MINUTE_MS = 60_000;
+const DAY_MINUTES = 1440;
+const WEEK_MINUTES = 10080;
+const DAY_MS = DAY_MINUTES * MINUTE_MS;
+const UNIT_MINUTES: Record<string, number> = { m: 1, h: 60, d: DAY_MINUTES, w: WEEK_MINUTES };
+
+export function parseTf(raw: string | null | undefined): TF | undefined {
+  const m = /^(\d+)\s*([mhdw])?$/i.exec((raw ?? "").trim());
+  if (!m) return undefined;
+  const minutes = Number(m[1]) * UNIT_MINUTES[(m[2] ?? "m").toLowerCase()];
+  return minutes >= 1 && minutes <= MAX_TF_MINUTES ? minutes : undefined;
+}
+
+// Short label: 5m, 4h, 1d, 2w; minutes that aren't whole hours stay in minutes (90m).
+export function formatTf(tf: TF): string {
+  if (tf % WEEK_MINUTES === 0) return `${tf / WEEK_MINUTES}w`;
+  if (tf % DAY_MINUTES === 0) return `${tf / DAY_MINUTES}d`;
+  if (tf % 60 === 0) return `${tf / 60}h`;
+  return `${tf}m`;
+}
+
+// ---- Time zones -------------------------------------------------------------------------------------
+// Day and week candles start at local midnight (weeks on Monday) in a configurable IANA zone; `tz=` in
+// the URL. UTC by default, so buckets match the chart's time axis unless a zone is asked for.
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, f);
+  }
+  return f;
+}
+
+export function isValidTimeZone(tz: string): boolean {
+  try {
+    partsFormatter(tz);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function parseTimeZone(raw: string | null | undefined): string | undefined {
+  const s = (raw ?? "").trim();
+  return s && isValidTimeZone(s) ? s : undefined;
+}
+
+// Wall-clock offset of `timeZone` from UTC at instant `t` (ms; positive east of Greenwich).
+function zoneOffset(t: number, timeZone: string): number {
+  if (timeZone === "UTC") return 0;
+  const p: Record<string, number> = {};
+  for (const { type, value } of partsFormatter(timeZone).formatToParts(t)) p[type] = Number(value);
+  const wall = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wall - Math.floor(t / 1000) * 1000;
+}
+
+// Local calendar day of `t` as days since 1970-01-01.
+const localDay = (t: number, timeZone: string) => Math.floor((t + zoneOffset(t, timeZone)) / DAY_MS);
+
+// Instant of local midnight starting calendar day `day`. Two passes settle DST transitions.
+function midnightOf(day: number, timeZone: string): number {
+  const wall = day * DAY_MS;
+  const guess = wall - zoneOffset(wall, timeZone);
+  return wall - zoneOffset(guess, timeZone);
+}
+
+// ---- Bucket alignment -------------------------------------------------------------------------------
+
+// How candle buckets line up: `floor` gives the start of the bucket containing t, `next` the start of
+// the bucket after one that starts at `start`. Buckets can differ in length (DST days).
+export type BucketAlign = { floor: (t: number) => number; next: (start: number) => number };
+
+// Multiples of a fixed interval since the epoch.
+export function fixedBuckets(intervalMs: number): BucketAlign {
+  return { floor: (t) => Math.floor(t / intervalMs) * intervalMs, next: (start) => start + intervalMs };
+}
+
+// 1970-01-01 was a Thursday; shifting by 3 days puts week boundaries on Mondays.
+const MONDAY_SHIFT = 3;
+
+// Buckets for a timeframe in a zone:
+//   * whole weeks: from local Monday midnight
+//   * whole days:  from local midnight
+//   * hours that divide a day (1h, 4h, 12h…): counted from local midnight
+//   * anything else: epoch multiples, as before
+export function alignBuckets(tf: TF, timeZone: string = DEFAULT_TIME_ZONE): BucketAlign {
+  const tfMs = tfToMs(tf);
+  // Bucket bounds ask for the same few midnights over and over; resolve each day once
+  const midnights = new Map<number, number>();
+  const midnight = (day: number) => {
+    let m = midnights.get(day);
+    if (m == null) {
+      m = midnightOf(day, timeZone);
+      midnights.set(day, m);
+    }
+    return m;
+  };
+  const dayOf = (t: number) => localDay(t, timeZone);
+  if (tf % WEEK_MINUTES === 0) {
+    const days = tf / DAY_MINUTES;
+    const startDay = (day: number) => Math.floor((day + MONDAY_SHIFT) / days) * days - MONDAY_SHIFT;
+    return {
+      floor: (t) => midnight(startDay(dayOf(t))),
+      next: (start) => midnight(startDay(dayOf(start) + days)),
+    };
+  }
+  if (tf % DAY_MINUTES === 0) {
+    const days = tf / DAY_MINUTES;
+    return {
+      floor: (t) => midnight(Math.floor(dayOf(t) / days) * days),
+      next: (start) => midnight(dayOf(start) + days),
+    };
+  }
+  if (tf % 60 === 0 && DAY_MINUTES % tf === 0) {
+    return {
+      floor: (t) => {
+        const start = midnight(dayOf(t));
+        return start + Math.floor((t - start) / tfMs) * tfMs;
+      },
+      // The last bucket of a DST day is cut short at the next midnight
+      next: (start) => Math.min(start + tfMs, midnight(dayOf(start) + 1)),
+    };
+  }
+  return fixedBuckets(tfMs);
+}
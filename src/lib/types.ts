@@ -1,15 +1,29 @@
-export type MarketRef = {
+// One binary (YES/NO) market. Categorical / neg-risk events carry one of these per outcome.
+export type OutcomeRef = {
   question: string;
   conditionId: string;
   yesTokenId: string;
   noTokenId: string;
+  label: string; // short name within the event (e.g. candidate or team); the question for standalone markets
   endDateIso?: string;
   slug?: string;
   yesLabel?: string;
   noLabel?: string;
+  closed?: boolean;
 };
 
-export type PricePoint = { t: number; p: number };
+// A resolved event: either a single binary market (one outcome) or a group of binary markets.
+export type MarketRef = {
+  question: string;
+  endDateIso?: string;
+  eventSlug?: string;
+  negRisk?: boolean;
+  outcomes: OutcomeRef[];
+  selectedOutcome?: string; // outcome key when the reference pointed at one market of an event
+};
+
+// `size` is set for trade fills; plain price snapshots leave it undefined.
+export type PricePoint = { t: number; p: number; size?: number };
 
 export type Candle = {
   t: number;
@@ -17,11 +31,47 @@ export type Candle = {
   high: number;
   low: number;
   close: number;
+  volume?: number;
+  synthetic?: boolean; // gap-fill candle carrying the previous close forward (no data in the bucket)
 };
 
 export type TOB = {
   bestBid?: number;
   bestAsk?: number;
+  bidSize?: number; // size resting at the touch; only known from the WebSocket book
+  askSize?: number;
   last?: number;
   updatedAt?: number;
 };
+
+// Both outcome tokens' top of book at one instant (kept briefly so it can be shown delayed).
+export type TobSnapshot = { t: number; yes: TOB; no: TOB };
+
+export type BookLevel = { price: number; size: number };
+
+// Normalized order book: bids best-first (descending), asks best-first (ascending). `t` is ms.
+export type OrderBook = {
+  t: number;
+  bids: BookLevel[];
+  asks: BookLevel[];
+};
+
+// A single fill. `t` is ms; `side` is the taker's side.
+export type Trade = {
+  id: string;
+  t: number;
+  price: number;
+  size: number;
+  side: "BUY" | "SELL";
+};
+
+// One hit from /api/search (an event; single markets are one-market events).
+export type SearchResult = {
+  slug: string;
+  title: string;
+  url: string;
+  endDateIso?: string;
+  price?: number; // YES price, only for single-market events
+  marketCount: number;
+  closed: boolean;
+};
@@ -1,55 +1,180 @@
 "use client";
-import { useEffect, useMemo, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
 import { TimeSeries } from "./buffer";
-import type { TOB } from "./types";
+import { appendTicks, loadTicks, pruneTicks } from "./tickStore";
+import { DEFAULT_PRICING_MODEL, noProbability, yesProbability, type PricingModel } from "./pricing";
+import type { PricePoint, TOB, TobSnapshot } from "./types";
+import type { FeedStats } from "./feedHealth";
+import {
+  DEFAULT_MARKET_WS_URL,
+  applyMarketEvent,
+  parseMarketFrame,
+  subscribeMessage,
+  type BookState,
+} from "./marketFeed";
 
-// Poll-only market feed (WebSocket to be implemented later)
-export function useMarketWS(yesTokenId: string | undefined, noTokenId: string | undefined) {
-  const seriesYesRef = useRef(new TimeSeries({ maxPoints: 50000, maxAgeMs: 1000 * 60 * 60 * 48 }));
-  const seriesNoRef = useRef(new TimeSeries({ maxPoints: 50000, maxAgeMs: 1000 * 60 * 60 * 48 }));
+// "connecting" until the socket opens; while it is down the shared /api/stream SSE feed fills in,
+// with per-tab REST polling as the last resort.
+export type FeedTransport = "idle" | "connecting" | "ws" | "sse" | "poll";
+
+const POLL_INTERVAL_MS = 2000;
+const HEARTBEAT_MS = 10_000;
+const CONNECT_TIMEOUT_MS = 8000;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+const STREAM_MAX_ERRORS = 3;
+const SERIES_MAX_AGE_MS = 1000 * 60 * 60 * 48;
+const PERSIST_FLUSH_MS = 5000;
+// Covers the 10 minute max delay with room to spare.
+const TOB_HISTORY_MS = 15 * 60_000;
+const TOB_PUBLISH_MS = 250;
+// lastOkAt only needs second resolution for staleness; avoids a state update per frame.
+const OK_RESOLUTION_MS = 1000;
+
+const newSeries = () => new TimeSeries({ maxPoints: 50000, maxAgeMs: SERIES_MAX_AGE_MS });
+// Stored ticks are per model; the default keeps the plain token id so existing data still loads.
+const storeKey = (tokenId: string, model: PricingModel) =>
+  model === DEFAULT_PRICING_MODEL ? tokenId : `${tokenId}:${model}`;
+
+// Market feed: CLOB WebSocket market channel, falling back to the server's shared SSE stream
+// (then /api/price polling) while the socket is down.
+// `wsUrl` overrides the endpoint (e.g. a local stand-in); pass an empty string to force polling only.
+// Ticks are persisted to IndexedDB per token (same retention) and rehydrated on mount unless `persist` is false.
+// `model` picks how the probability is derived from the two books (see lib/pricing); switching it starts
+// fresh series (rehydrated from that model's own stored ticks) without reconnecting the feed.
+export function useMarketWS(
+  yesTokenId: string | undefined,
+  noTokenId: string | undefined,
+  opts?: { wsUrl?: string; persist?: boolean; model?: PricingModel },
+) {
+  const seriesYesRef = useRef(newSeries());
+  const seriesNoRef = useRef(newSeries());
   const tobRef = useRef<Record<string, TOB>>({});
+  const tobHistoryRef = useRef<TobSnapshot[]>([]);
+  const [tob, setTob] = useState<Record<string, TOB>>({});
   const pollTimer = useRef<NodeJS.Timeout | null>(null);
+  const [transport, setTransport] = useState<FeedTransport>("idle");
+  const [lastOkAt, setLastOkAt] = useState<number | undefined>(undefined);
+  const [failures, setFailures] = useState(0);
+  const [online, setOnline] = useState(true);
+  const pendingRef = useRef<Record<string, PricePoint[]>>({});
+  const [, setHydrated] = useState(0);
+  const wsUrl = opts?.wsUrl ?? process.env.NEXT_PUBLIC_CLOB_WS_URL ?? DEFAULT_MARKET_WS_URL;
+  const persist = opts?.persist ?? true;
+  const model = opts?.model ?? DEFAULT_PRICING_MODEL;
+  const modelRef = useRef(model);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine !== false);
+    update();
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
 
   // reset state when tokens change
   useEffect(() => {
-    seriesYesRef.current = new TimeSeries({ maxPoints: 50000, maxAgeMs: 1000 * 60 * 60 * 48 });
-    seriesNoRef.current = new TimeSeries({ maxPoints: 50000, maxAgeMs: 1000 * 60 * 60 * 48 });
+    seriesYesRef.current = newSeries();
+    seriesNoRef.current = newSeries();
     tobRef.current = {};
+    tobHistoryRef.current = [];
+    setTob({});
   }, [yesTokenId, noTokenId]);
 
+  // a different model means a different series; keep the feed (and TOB) running
   useEffect(() => {
-    if (!yesTokenId || !noTokenId) return;
+    if (modelRef.current === model) return;
+    modelRef.current = model;
+    seriesYesRef.current = newSeries();
+    seriesNoRef.current = newSeries();
+  }, [model]);
+
+  // Rehydrate from IndexedDB, then flush new ticks in batches (and once more on unmount / page hide).
+  useEffect(() => {
+    if (!persist || !yesTokenId || !noTokenId) return;
+    const seriesYes = seriesYesRef.current;
+    const seriesNo = seriesNoRef.current;
+    const sinceTs = Date.now() - SERIES_MAX_AGE_MS;
+    let cancelled = false;
+    void pruneTicks(sinceTs);
+    const keys = [storeKey(yesTokenId, model), storeKey(noTokenId, model)];
+    Promise.all([loadTicks(keys[0], sinceTs), loadTicks(keys[1], sinceTs)]).then(([yes, no]) => {
+      if (cancelled) return;
+      seriesYes.merge(yes);
+      seriesNo.merge(no);
+      if (yes.length || no.length) {
+        console.debug("[TickStore] rehydrated", yes.length, "+", no.length, "ticks");
+        setHydrated((n) => n + 1);
+      }
+    });
+    const flush = () => {
+      const pending = pendingRef.current;
+      pendingRef.current = {};
+      for (const [key, points] of Object.entries(pending)) void appendTicks(key, points);
+    };
+    const timer = setInterval(flush, PERSIST_FLUSH_MS);
+    window.addEventListener("pagehide", flush);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      window.removeEventListener("pagehide", flush);
+      flush();
+    };
+  }, [persist, yesTokenId, noTokenId, model]);
+
+  useEffect(() => {
+    if (!yesTokenId || !noTokenId) {
+      setTransport("idle");
+      return;
+    }
     tobRef.current[yesTokenId] = {};
     tobRef.current[noTokenId] = {};
+    const books: BookState = {};
+    let disposed = false;
+    setLastOkAt(undefined);
+    setFailures(0);
 
-    const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
-    const midFrom = (t: TOB | undefined): number | undefined => {
-      if (!t) return undefined;
-      const { bestBid: bb, bestAsk: ba, last } = t;
-      if (bb != null && ba != null) return (bb + ba) / 2;
-      if (last != null) return last;
-      if (bb != null) return bb;
-      if (ba != null) return ba;
-      return undefined;
-    };
-    const computeBlendedProb = (): number | undefined => {
-      const y = tobRef.current[yesTokenId];
-      const n = tobRef.current[noTokenId];
-      const my = midFrom(y);
-      const mn = midFrom(n);
-      if (my != null && mn != null) return clamp01((my + (1 - mn)) / 2);
-      if (my != null) return clamp01(my);
-      if (mn != null) return clamp01(1 - mn);
-      return undefined;
-    };
-    const computeNoProb = (): number | undefined => {
+    // Health bookkeeping: any successful frame/response vs. consecutive failures on any transport.
+    let lastOkMark = 0;
+    const markOk = (tNow: number) => {
+      setFailures((n) => (n === 0 ? n : 0));
+      if (tNow - lastOkMark < OK_RESOLUTION_MS) return;
+      lastOkMark = tNow;
+      setLastOkAt(tNow);
+    };
+    const markFailure = () => {
+      if (!disposed) setFailures((n) => n + 1);
+    };
+
+    const record = (series: TimeSeries, key: string, pt: PricePoint) => {
+      series.push(pt);
+      if (persist) (pendingRef.current[key] ??= []).push(pt);
+    };
+    // Copies of both TOBs: appended to the short history on every change, published to state at most every 250ms.
+    let publishTimer: NodeJS.Timeout | null = null;
+    const recordTob = (tNow: number, y: TOB, n: TOB) => {
+      const history = tobHistoryRef.current;
+      history.push({ t: tNow, yes: { ...y }, no: { ...n } });
+      while (history.length && history[0].t < tNow - TOB_HISTORY_MS) history.shift();
+      if (publishTimer) return;
+      publishTimer = setTimeout(() => {
+        publishTimer = null;
+        if (disposed) return;
+        setTob({ [yesTokenId]: { ...tobRef.current[yesTokenId] }, [noTokenId]: { ...tobRef.current[noTokenId] } });
+      }, TOB_PUBLISH_MS);
+    };
+    const pushTick = (tNow: number) => {
+      const m = modelRef.current;
       const y = tobRef.current[yesTokenId];
       const n = tobRef.current[noTokenId];
-      const my = midFrom(y);
-      const mn = midFrom(n);
-      if (mn != null) return clamp01(mn);
-      if (my != null) return clamp01(1 - my);
-      return undefined;
+      recordTob(tNow, y, n);
+      const probYes = yesProbability(m, y, n);
+      const probNo = noProbability(m, y, n);
+      if (probYes != null) record(seriesYesRef.current, storeKey(yesTokenId, m), { t: tNow, p: probYes });
+      if (probNo != null) record(seriesNoRef.current, storeKey(noTokenId, m), { t: tNow, p: probNo });
     };
 
     const clearPolling = () => {
@@ -61,30 +186,216 @@ export function useMarketWS(yesTokenId: string | undefined, noTokenId: string |
     const startPolling = () => {
       if (pollTimer.current) return;
       console.debug("[Poll] starting price polling");
+      setTransport("poll");
       pollTimer.current = setInterval(async () => {
         try {
           const [buy, sell] = await Promise.all([
             fetch(`/api/price?tokenId=${encodeURIComponent(yesTokenId)}`).then((r) => r.json()),
             fetch(`/api/price?tokenId=${encodeURIComponent(noTokenId)}`).then((r) => r.json()),
           ]);
+          if (disposed) return;
+          // /api/price answers upstream errors with empty quotes rather than an error status
+          if (buy?.bestBid == null && buy?.bestAsk == null && sell?.bestBid == null && sell?.bestAsk == null) {
+            markFailure();
+            return;
+          }
           if (buy?.bestBid != null) tobRef.current[yesTokenId].bestBid = parseFloat(buy.bestBid);
           if (buy?.bestAsk != null) tobRef.current[yesTokenId].bestAsk = parseFloat(buy.bestAsk);
           if (sell?.bestBid != null) tobRef.current[noTokenId].bestBid = parseFloat(sell.bestBid);
           if (sell?.bestAsk != null) tobRef.current[noTokenId].bestAsk = parseFloat(sell.bestAsk);
           const tNow = Date.now();
-          const probYes = computeBlendedProb();
-          const probNo = computeNoProb();
-          if (probYes != null && !Number.isNaN(probYes)) seriesYesRef.current.push({ t: tNow, p: probYes });
-          if (probNo != null && !Number.isNaN(probNo)) seriesNoRef.current.push({ t: tNow, p: probNo });
+          for (const id of [yesTokenId, noTokenId]) {
+            // REST quotes carry no sizes; drop any left over from the socket
+            tobRef.current[id].bidSize = undefined;
+            tobRef.current[id].askSize = undefined;
+            tobRef.current[id].updatedAt = tNow;
+          }
+          markOk(tNow);
+          pushTick(tNow);
         } catch (e) {
           console.error("[Poll] error:", e);
+          markFailure();
         }
-      }, 2000);
+      }, POLL_INTERVAL_MS);
     };
-    startPolling();
-    return () => clearPolling();
-  }, [yesTokenId, noTokenId]);
 
-  const currentTOB = useMemo(() => tobRef.current, []);
-  return { seriesYes: seriesYesRef.current, seriesNo: seriesNoRef.current, tob: currentTOB } as const;
+    // Shared server stream: one upstream poller per token on the server, however many tabs are open.
+    let es: EventSource | null = null;
+    let streamErrors = 0;
+    const closeStream = () => {
+      if (es) es.close();
+      es = null;
+    };
+    const startStream = () => {
+      const qs = new URLSearchParams();
+      qs.append("tokenId", yesTokenId);
+      qs.append("tokenId", noTokenId);
+      const source = new EventSource(`/api/stream?${qs.toString()}`);
+      es = source;
+      streamErrors = 0;
+      console.debug("[SSE] starting price stream");
+      setTransport("sse");
+      source.onmessage = (msg: MessageEvent) => {
+        if (es !== source) return;
+        streamErrors = 0;
+        try {
+          const u = JSON.parse(msg.data) as TOB & { tokenId?: string };
+          const t = u.tokenId ? tobRef.current[u.tokenId] : undefined;
+          if (!t) return;
+          if (u.bestBid != null) t.bestBid = u.bestBid;
+          if (u.bestAsk != null) t.bestAsk = u.bestAsk;
+          t.bidSize = undefined;
+          t.askSize = undefined;
+          const tNow = Date.now();
+          t.updatedAt = tNow;
+          markOk(tNow);
+          pushTick(tNow);
+        } catch (e) {
+          console.error("[SSE] bad message:", e);
+        }
+      };
+      source.onerror = () => {
+        if (es !== source) return;
+        streamErrors += 1;
+        markFailure();
+        // EventSource retries on its own; give up on it if it's closed or keeps failing.
+        if (source.readyState === EventSource.CLOSED || streamErrors >= STREAM_MAX_ERRORS) {
+          console.warn("[SSE] stream failed; falling back to polling");
+          closeStream();
+          if (!disposed) startPolling();
+        }
+      };
+    };
+
+    const startFallback = () => {
+      if (es || pollTimer.current) return;
+      if (typeof EventSource !== "undefined") startStream();
+      else startPolling();
+    };
+    const stopFallback = () => {
+      closeStream();
+      clearPolling();
+    };
+
+    // WebSocket lifecycle: connect -> subscribe -> heartbeat; on failure poll and reconnect with backoff.
+    let ws: WebSocket | null = null;
+    let attempts = 0;
+    let heartbeatTimer: NodeJS.Timeout | null = null;
+    let connectTimer: NodeJS.Timeout | null = null;
+    let reconnectTimer: NodeJS.Timeout | null = null;
+    let lastFrameAt = 0;
+
+    const clearSocketTimers = () => {
+      if (heartbeatTimer) clearInterval(heartbeatTimer);
+      if (connectTimer) clearTimeout(connectTimer);
+      heartbeatTimer = null;
+      connectTimer = null;
+    };
+    const scheduleReconnect = () => {
+      if (disposed || reconnectTimer) return;
+      const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempts);
+      attempts += 1;
+      console.debug("[WS] reconnecting in", delay, "ms");
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        connect();
+      }, delay);
+    };
+    const handleDown = (sock: WebSocket) => {
+      if (ws !== sock) return; // already replaced
+      ws = null;
+      clearSocketTimers();
+      if (disposed) return;
+      markFailure();
+      startFallback();
+      scheduleReconnect();
+    };
+    const connect = () => {
+      if (disposed) return;
+      if (!wsUrl || typeof WebSocket === "undefined") {
+        startFallback();
+        return;
+      }
+      let sock: WebSocket;
+      try {
+        sock = new WebSocket(wsUrl);
+      } catch (e) {
+        console.warn("[WS] connect failed", e);
+        markFailure();
+        startFallback();
+        scheduleReconnect();
+        return;
+      }
+      ws = sock;
+      if (!pollTimer.current && !es) setTransport("connecting");
+      connectTimer = setTimeout(() => {
+        console.warn("[WS] connect timeout");
+        sock.close();
+        handleDown(sock);
+      }, CONNECT_TIMEOUT_MS);
+
+      sock.onopen = () => {
+        if (ws !== sock) return;
+        if (connectTimer) clearTimeout(connectTimer);
+        connectTimer = null;
+        lastFrameAt = Date.now();
+        sock.send(subscribeMessage([yesTokenId, noTokenId]));
+        stopFallback();
+        setTransport("ws");
+        heartbeatTimer = setInterval(() => {
+          // No frames (not even PONG) for two heartbeats -> treat the socket as dead.
+          if (Date.now() - lastFrameAt > HEARTBEAT_MS * 2) {
+            console.warn("[WS] heartbeat timeout");
+            sock.close();
+            handleDown(sock);
+            return;
+          }
+          try {
+            sock.send("PING");
+          } catch {}
+        }, HEARTBEAT_MS);
+      };
+      sock.onmessage = (msg: MessageEvent) => {
+        if (ws !== sock) return;
+        const tNow = Date.now();
+        lastFrameAt = tNow;
+        attempts = 0; // only a socket that actually delivers frames resets the backoff
+        markOk(tNow);
+        let changed = false;
+        for (const ev of parseMarketFrame(msg.data)) {
+          if (applyMarketEvent(ev, books, tobRef.current, tNow).length) changed = true;
+        }
+        if (changed) pushTick(tNow);
+      };
+      sock.onerror = () => {
+        console.warn("[WS] socket error");
+      };
+      sock.onclose = () => handleDown(sock);
+    };
+
+    connect();
+    return () => {
+      disposed = true;
+      if (publishTimer) clearTimeout(publishTimer);
+      stopFallback();
+      clearSocketTimers();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      const sock = ws;
+      ws = null;
+      if (sock) {
+        try {
+          sock.close();
+        } catch {}
+      }
+    };
+  }, [yesTokenId, noTokenId, wsUrl, persist]);
+
+  return {
+    seriesYes: seriesYesRef.current,
+    seriesNo: seriesNoRef.current,
+    tob,
+    tobHistory: tobHistoryRef.current,
+    transport,
+    stats: { transport, lastOkAt, failures, online } satisfies FeedStats,
+  } as const;
 }
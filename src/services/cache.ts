@@ -0,0 +1,90 @@
+// Shared server-side cache for upstream Polymarket calls, so many viewers on one market cost one
+// upstream request per key per TTL.
+//   * fresh entries are served as HIT
+//   * concurrent misses for one key share a single upstream call (COALESCED for the followers)
+//   * within `swrMs` after expiry the stale value is served while it revalidates in the background
+//   * on upstream errors a value up to `staleIfErrorMs` past expiry is served instead of failing
+// Routes pass the result to `cacheHeaders` so responses carry X-Cache / Age.
+
+export type CacheStatus = "HIT" | "MISS" | "STALE" | "COALESCED";
+export type Cached<T> = { value: T; status: CacheStatus; ageMs: number };
+export type CachePolicy = { ttlMs: number; swrMs?: number; staleIfErrorMs?: number };
+
+export const CACHE_POLICIES = {
+  // Quotes move constantly; just enough to absorb many pollers and the shared price hub.
+  price: { ttlMs: 1000, staleIfErrorMs: 30_000 },
+  // Depth and the trade tape are polled every 5s by each client; a short TTL lets them all share one call.
+  book: { ttlMs: 2000, staleIfErrorMs: 30_000 },
+  trades: { ttlMs: 3000, staleIfErrorMs: 60_000 },
+  // One-minute fidelity; a new sample appears at most once a minute.
+  history: { ttlMs: 30_000, swrMs: 60_000, staleIfErrorMs: 10 * 60_000 },
+  // Explicit ranges that ended over an hour ago no longer change.
+  historySettled: { ttlMs: 30 * 60_000, swrMs: 60 * 60_000, staleIfErrorMs: 6 * 60 * 60_000 },
+  // Typeahead queries repeat a lot while typing; prices in results are only indicative.
+  search: { ttlMs: 30_000, swrMs: 60_000, staleIfErrorMs: 10 * 60_000 },
+  // Market metadata (token ids, titles) barely changes.
+  gamma: { ttlMs: 5 * 60_000, swrMs: 10 * 60_000, staleIfErrorMs: 60 * 60_000 },
+} satisfies Record<string, CachePolicy>;
+
+type Entry = { value: unknown; storedAt: number };
+
+const MAX_ENTRIES = 2000;
+
+// Kept on globalThis so dev hot reloads keep the cache and in-flight map.
+const g = globalThis as typeof globalThis & {
+  __upstreamCache?: { entries: Map<string, Entry>; inflight: Map<string, Promise<unknown>> };
+};
+const store = (g.__upstreamCache ??= { entries: new Map(), inflight: new Map() });
+
+function set(key: string, value: unknown) {
+  store.entries.delete(key); // re-insert so Map order tracks recency
+  store.entries.set(key, { value, storedAt: Date.now() });
+  while (store.entries.size > MAX_ENTRIES) {
+    const oldest = store.entries.keys().next().value;
+    if (oldest == null) break;
+    store.entries.delete(oldest);
+  }
+}
+
+function refresh<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+  const existing = store.inflight.get(key);
+  if (existing) return existing as Promise<T>;
+  const p = fetcher()
+    .then((value) => {
+      set(key, value);
+      return value;
+    })
+    .finally(() => store.inflight.delete(key));
+  store.inflight.set(key, p);
+  return p;
+}
+
+export async function cached<T>(key: string, policy: CachePolicy, fetcher: () => Promise<T>): Promise<Cached<T>> {
+  const entry = store.entries.get(key);
+  const ageMs = entry ? Date.now() - entry.storedAt : Infinity;
+  if (entry && ageMs < policy.ttlMs) return { value: entry.value as T, status: "HIT", ageMs };
+  if (entry && ageMs < policy.ttlMs + (policy.swrMs ?? 0)) {
+    refresh(key, fetcher).catch((e) => console.warn("[cache] revalidate failed:", key, e?.message ?? e));
+    return { value: entry.value as T, status: "STALE", ageMs };
+  }
+  const coalesced = store.inflight.has(key);
+  try {
+    const value = await refresh(key, fetcher);
+    return { value, status: coalesced ? "COALESCED" : "MISS", ageMs: 0 };
+  } catch (e) {
+    if (entry && ageMs < policy.ttlMs + (policy.staleIfErrorMs ?? 0)) {
+      console.warn("[cache] upstream error, serving stale:", key);
+      return { value: entry.value as T, status: "STALE", ageMs };
+    }
+    throw e;
+  }
+}
+
+// Headers for a response built from one or more cached values: the least fresh status wins.
+export function cacheHeaders(...results: Array<Cached<unknown>>): Record<string, string> {
+  if (!results.length) return {};
+  const rank: Record<CacheStatus, number> = { HIT: 0, COALESCED: 1, MISS: 2, STALE: 3 };
+  const status = results.reduce<CacheStatus>((s, r) => (rank[r.status] > rank[s] ? r.status : s), "HIT");
+  const age = Math.max(...results.map((r) => r.ageMs));
+  return { "X-Cache": status, Age: String(Math.floor(age / 1000)) };
+}
@@ -0,0 +1,52 @@
+import axios from "axios";
+import type { OrderBook } from "@/lib/types";
+
+// Server-side access to the CLOB REST API (used by API routes and the shared price hub).
+const CLOB_BASE = "https://clob.polymarket.com";
+
+export type UpstreamPrice = { bestBid: string | null; bestAsk: string | null };
+
+export async function fetchTopOfBook(tokenId: string): Promise<UpstreamPrice> {
+  const [buy, sell] = await Promise.all([
+    axios.get(`${CLOB_BASE}/price`, { params: { token_id: tokenId, side: "BUY" } }),
+    axios.get(`${CLOB_BASE}/price`, { params: { token_id: tokenId, side: "SELL" } }),
+  ]);
+  console.log("[clob] upstream buy:", buy.data, "sell:", sell.data);
+  return { bestBid: buy.data?.price ?? null, bestAsk: sell.data?.price ?? null };
+}
+
+export type UpstreamHistoryPoint = { t: number; p: number }; // t in seconds
+
+// `interval` is the span (e.g. "1d", "max"), `fidelity` the sample spacing in minutes. An explicit
+// startTs / endTs range (unix seconds) replaces the interval; upstream rejects requests with both.
+export async function fetchPriceHistory(
+  tokenId: string,
+  opts?: { interval?: string; fidelity?: string; startTs?: number; endTs?: number },
+): Promise<UpstreamHistoryPoint[]> {
+  const ranged = opts?.startTs != null || opts?.endTs != null;
+  const { data } = await axios.get(`${CLOB_BASE}/prices-history`, {
+    params: {
+      market: tokenId,
+      fidelity: opts?.fidelity ?? "1",
+      ...(ranged ? { startTs: opts?.startTs, endTs: opts?.endTs } : { interval: opts?.interval ?? "1d" }),
+    },
+  });
+  const history = Array.isArray(data?.history) ? data.history : Array.isArray(data) ? data : [];
+  return (history as Array<{ t: unknown; p: unknown }>)
+    .map((h) => ({ t: Number(h.t), p: Number(h.p) }))
+    .filter((h) => Number.isFinite(h.t) && Number.isFinite(h.p));
+}
+
+type RawLevel = { price: string | number; size: string | number };
+
+function normalizeLevels(levels: RawLevel[] | undefined, order: "asc" | "desc") {
+  const out = (levels ?? [])
+    .map((l) => ({ price: Number(l.price), size: Number(l.size) }))
+    .filter((l) => Number.isFinite(l.price) && Number.isFinite(l.size) && l.size > 0);
+  return out.sort((a, b) => (order === "asc" ? a.price - b.price : b.price - a.price));
+}
+
+export async function fetchOrderBook(tokenId: string): Promise<Omit<OrderBook, "t">> {
+  const { data } = await axios.get(`${CLOB_BASE}/book`, { params: { token_id: tokenId } });
+  return { bids: normalizeLevels(data?.bids, "desc"), asks: normalizeLevels(data?.asks, "asc") };
+}
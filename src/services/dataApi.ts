@@ -0,0 +1,35 @@
+import axios from "axios";
+import type { Trade } from "@/lib/types";
+
+// Server-side access to Polymarket's data API (fills / activity).
+const DATA_API_BASE = "https://data-api.polymarket.com";
+
+type RawTrade = {
+  asset?: string;
+  side?: string;
+  size?: number | string;
+  price?: number | string;
+  timestamp?: number | string; // seconds
+  transactionHash?: string;
+};
+
+// Most recent fills for a market (condition), newest first; optionally only one outcome token.
+export async function fetchRecentTrades(conditionId: string, tokenId?: string, limit = 100): Promise<Trade[]> {
+  const { data } = await axios.get(`${DATA_API_BASE}/trades`, { params: { market: conditionId, limit } });
+  const rows: RawTrade[] = Array.isArray(data) ? data : [];
+  return rows
+    .filter((r) => !tokenId || r.asset === tokenId)
+    .map((r) => {
+      const t = Number(r.timestamp) * 1000;
+      const side: Trade["side"] = String(r.side).toUpperCase() === "SELL" ? "SELL" : "BUY";
+      return {
+        id: `${r.transactionHash ?? t}:${r.asset ?? ""}:${r.price}:${r.size}`,
+        t,
+        price: Number(r.price),
+        size: Number(r.size),
+        side,
+      };
+    })
+    .filter((tr) => Number.isFinite(tr.t) && Number.isFinite(tr.price) && Number.isFinite(tr.size))
+    .sort((a, b) => b.t - a.t);
+}
@@ -0,0 +1,68 @@
+import axios from "axios";
+import type { SearchResult } from "@/lib/types";
+
+// Server-side access to Polymarket's gamma API for market discovery.
+const GAMMA_BASE = "https://gamma-api.polymarket.com";
+
+type RawMarket = {
+  question?: string | null;
+  slug?: string | null;
+  closed?: boolean | null;
+  outcomePrices?: string | string[] | null;
+  lastTradePrice?: number | string | null;
+  bestBid?: number | string | null;
+  bestAsk?: number | string | null;
+};
+type RawEvent = {
+  title?: string | null;
+  slug?: string | null;
+  endDate?: string | null;
+  closed?: boolean | null;
+  markets?: RawMarket[] | null;
+};
+
+const num = (v: unknown): number | undefined => {
+  if (v == null || v === "") return undefined;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+// YES price of a binary market: mid of the touch, else last trade, else the first listed outcome price.
+function yesPrice(m: RawMarket): number | undefined {
+  const bid = num(m.bestBid);
+  const ask = num(m.bestAsk);
+  if (bid != null && ask != null && ask > 0) return (bid + ask) / 2;
+  const last = num(m.lastTradePrice);
+  if (last != null) return last;
+  try {
+    const prices = typeof m.outcomePrices === "string" ? JSON.parse(m.outcomePrices) : m.outcomePrices;
+    return Array.isArray(prices) ? num(prices[0]) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Text search over events (single markets are one-market events). Open events first.
+export async function searchEvents(q: string, limit = 8): Promise<SearchResult[]> {
+  const { data } = await axios.get(`${GAMMA_BASE}/public-search`, {
+    params: { q, limit_per_type: limit, events_status: "active" },
+  });
+  const events: RawEvent[] = Array.isArray(data?.events) ? data.events : [];
+  return events
+    .filter((e): e is RawEvent & { slug: string } => Boolean(e?.slug))
+    .map((e) => {
+      const markets = (e.markets ?? []).filter((m) => m && !m.closed);
+      const single = markets.length === 1 ? markets[0] : undefined;
+      return {
+        slug: e.slug,
+        title: single?.question || e.title || e.slug,
+        url: `https://polymarket.com/event/${e.slug}`,
+        endDateIso: e.endDate ?? undefined,
+        price: single ? yesPrice(single) : undefined,
+        marketCount: markets.length,
+        closed: Boolean(e.closed),
+      };
+    })
+    .sort((a, b) => Number(a.closed) - Number(b.closed))
+    .slice(0, limit);
+}
@@ -1,20 +1,76 @@
 import axios from "axios";
 import { z } from "zod";
-import type { MarketRef } from "@/lib/types";
+import type { BookLevel, MarketRef, SearchResult, Trade } from "@/lib/types";
+import { RESOLVE_ERROR_CODES, ResolveError, type ResolveErrorCode } from "@/lib/marketRef";
 
 const HistorySchema = z
   .object({ history: z.array(z.object({ t: z.number(), p: z.number() })) })
   .or(z.array(z.object({ t: z.number(), p: z.number() })));
 
+const LevelSchema = z.object({ price: z.number(), size: z.number() });
+const BookSchema = z.object({ bids: z.array(LevelSchema), asks: z.array(LevelSchema) });
+const TradesSchema = z.object({
+  trades: z.array(
+    z.object({
+      id: z.string(),
+      t: z.number(),
+      price: z.number(),
+      size: z.number(),
+      side: z.enum(["BUY", "SELL"]),
+    }),
+  ),
+});
+
+const SearchSchema = z.object({
+  results: z.array(
+    z.object({
+      slug: z.string(),
+      title: z.string(),
+      url: z.string(),
+      endDateIso: z.string().optional(),
+      price: z.number().optional(),
+      marketCount: z.number(),
+      closed: z.boolean(),
+    }),
+  ),
+});
+
 export type HistoryPoint = { t: number; p: number };
 
+// Rejects with a ResolveError when the API answers with one of its error codes.
 export async function resolveMarket(url: string): Promise<MarketRef> {
-  const { data } = await axios.post("/api/resolve", { url });
-  return data as MarketRef;
+  try {
+    const { data } = await axios.post("/api/resolve", { url });
+    return data as MarketRef;
+  } catch (e) {
+    const code: unknown = axios.isAxiosError(e) ? e.response?.data?.code : undefined;
+    if ((RESOLVE_ERROR_CODES as readonly unknown[]).includes(code)) throw new ResolveError(code as ResolveErrorCode);
+    throw e;
+  }
 }
 
-export async function fetchHistory(tokenId: string, fidelity: string = "1"): Promise<HistoryPoint[]> {
-  const { data } = await axios.get("/api/history", { params: { tokenId, fidelity } });
+// Points come back with `t` in seconds. Pass either `interval` (e.g. "1d") or a startTs / endTs range
+// in unix seconds to page through older history; `fidelity` is the sample spacing in minutes.
+export type HistoryQuery = { fidelity?: number; interval?: string; startTs?: number; endTs?: number };
+
+export async function fetchHistory(tokenId: string, query: HistoryQuery = {}): Promise<HistoryPoint[]> {
+  const { fidelity = 1, ...rest } = query;
+  const { data } = await axios.get("/api/history", { params: { tokenId, fidelity, ...rest } });
   const parsed = HistorySchema.parse(data);
   return Array.isArray(parsed) ? parsed : parsed.history;
 }
+
+export async function fetchBook(tokenId: string): Promise<{ bids: BookLevel[]; asks: BookLevel[] }> {
+  const { data } = await axios.get("/api/book", { params: { tokenId } });
+  return BookSchema.parse(data);
+}
+
+export async function fetchTrades(conditionId: string, tokenId?: string): Promise<Trade[]> {
+  const { data } = await axios.get("/api/trades", { params: { conditionId, tokenId } });
+  return TradesSchema.parse(data).trades;
+}
+
+export async function searchMarkets(q: string, signal?: AbortSignal): Promise<SearchResult[]> {
+  const { data } = await axios.get("/api/search", { params: { q }, signal });
+  return SearchSchema.parse(data).results;
+}
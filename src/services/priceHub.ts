@@ -0,0 +1,71 @@
+import type { TOB } from "@/lib/types";
+import { fetchTopOfBook } from "./clob";
+import { CACHE_POLICIES, cached } from "./cache";
+
+// Shared upstream fan-out: one poller per token no matter how many clients are streaming it.
+// The poller starts with the first subscriber and stops when the last one leaves.
+// Only fresh quotes are emitted: while upstream fails the cache may serve its last value, but passing
+// that on would look like a live feed to clients (and alerts) that treat each update as a sign of life.
+
+export type TobUpdate = { tokenId: string } & TOB;
+type Listener = (u: TobUpdate) => void;
+type Feed = { listeners: Set<Listener>; timer: NodeJS.Timeout | null; last?: TobUpdate };
+
+const POLL_INTERVAL_MS = 2000;
+// A new subscriber gets the last quote right away only if a poll produced it recently.
+const LAST_MAX_AGE_MS = 2 * POLL_INTERVAL_MS;
+
+// Kept on globalThis so dev hot reloads don't orphan running pollers.
+const g = globalThis as typeof globalThis & { __priceHubFeeds?: Map<string, Feed> };
+const feeds: Map<string, Feed> = (g.__priceHubFeeds ??= new Map());
+
+function startFeed(tokenId: string): Feed {
+  const feed: Feed = { listeners: new Set(), timer: null };
+  const tick = async () => {
+    try {
+      // Same cache key as /api/price, so polling clients and the hub share upstream calls.
+      const { value, status } = await cached(`price:${tokenId}`, CACHE_POLICIES.price, () => fetchTopOfBook(tokenId));
+      const { bestBid, bestAsk } = value;
+      if (feeds.get(tokenId) !== feed) return; // stopped while in flight
+      if (status === "STALE") {
+        console.warn("[priceHub] upstream error, holding stale quote:", tokenId);
+      } else {
+        const update: TobUpdate = {
+          tokenId,
+          bestBid: bestBid != null ? parseFloat(bestBid) : undefined,
+          bestAsk: bestAsk != null ? parseFloat(bestAsk) : undefined,
+          updatedAt: Date.now(),
+        };
+        feed.last = update;
+        for (const l of feed.listeners) {
+          try {
+            l(update);
+          } catch (e) {
+            console.error("[priceHub] listener error:", e);
+          }
+        }
+      }
+    } catch (e) {
+      console.error("[priceHub] upstream error:", tokenId, e);
+    }
+    if (feeds.get(tokenId) === feed) feed.timer = setTimeout(tick, POLL_INTERVAL_MS);
+  };
+  feeds.set(tokenId, feed);
+  console.log("[priceHub] start feed:", tokenId);
+  tick();
+  return feed;
+}
+
+export function subscribeTob(tokenId: string, listener: Listener): () => void {
+  const feed = feeds.get(tokenId) ?? startFeed(tokenId);
+  feed.listeners.add(listener);
+  if (feed.last && Date.now() - (feed.last.updatedAt ?? 0) < LAST_MAX_AGE_MS) listener(feed.last);
+  return () => {
+    feed.listeners.delete(listener);
+    if (feed.listeners.size > 0 || feeds.get(tokenId) !== feed) return;
+    if (feed.timer) clearTimeout(feed.timer);
+    feed.timer = null;
+    feeds.delete(tokenId);
+    console.log("[priceHub] stop feed:", tokenId);
+  };
+}
@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TobUpdate } from "./priceHub";
+
+const hub = vi.hoisted(() => ({ listener: null as ((u: TobUpdate) => void) | null }));
+const post = vi.hoisted(() => vi.fn(async () => ({ status: 200 })));
+
+vi.mock("./priceHub", () => ({
+  subscribeTob: (_tokenId: string, listener: (u: TobUpdate) => void) => {
+    hub.listener = listener;
+    return () => {};
+  },
+}));
+vi.mock("axios", () => ({ default: { post, isAxiosError: () => false } }));
+
+const { registerAlert, removeAlert } = await import("./webhookAlerts");
+
+const quote = (p: number, updatedAt: number) => hub.listener!({ tokenId: "tok", bestBid: p, bestAsk: p, updatedAt });
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+describe("webhook alert dedupe", () => {
+  beforeEach(() => post.mockClear());
+
+  it("doesn't send twice within a minute across a minute boundary", async () => {
+    const alert = registerAlert({
+      tokenId: "tok",
+      condition: { kind: "above", threshold: 0.6 },
+      webhookUrl: "https://93.184.216.34/hook",
+    });
+    const boundary = 1_760_000_040_000; // a multiple of 60s
+    quote(0.5, boundary - 1000);
+    quote(0.7, boundary - 10); // fires
+    quote(0.5, boundary);
+    quote(0.7, boundary + 10); // fires again 20ms later, next minute bucket: suppressed
+    await flush();
+    expect(post).toHaveBeenCalledTimes(1);
+
+    quote(0.5, boundary + 30_000);
+    quote(0.7, boundary + 60_000); // a full window after the first delivery
+    await flush();
+    expect(post).toHaveBeenCalledTimes(2);
+    removeAlert(alert.id);
+  });
+});
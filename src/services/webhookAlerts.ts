@@ -0,0 +1,232 @@
+import axios from "axios";
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import { TimeSeries } from "@/lib/buffer";
+import { checkRule, describeRule, type AlertCondition, type AlertState } from "@/lib/alerts";
+import { subscribeTob, type TobUpdate } from "./priceHub";
+
+// Server-side webhook alerts. Each registered rule subscribes its token to the shared price hub
+// (the same upstream poller behind /api/price and /api/stream), is evaluated on every update, and
+// POSTs a JSON event to its webhook when it fires. Registrations live in memory, so this needs a
+// long-running server process (`next start`), not per-request serverless functions.
+// Webhooks must point at public hosts (checked on registration and again before each delivery, since
+// DNS can change) unless ALERTS_ALLOW_PRIVATE_WEBHOOKS=1, which is meant for local testing only.
+
+export type WebhookAlert = {
+  id: string;
+  tokenId: string;
+  condition: AlertCondition;
+  webhookUrl: string;
+  label?: string;
+  createdAt: number;
+};
+
+export type WebhookEvent = {
+  id: string; // unique per event (retries reuse it); also sent as Idempotency-Key
+  alertId: string;
+  tokenId: string;
+  label?: string;
+  condition: AlertCondition;
+  message: string;
+  price: number;
+  firedAt: string;
+};
+
+type Entry = { alert: WebhookAlert; state: AlertState; unsubscribe: () => void };
+
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_MS = 1000;
+const DELIVERY_TIMEOUT_MS = 5000;
+// At most one delivered event per rule per window (measured from the last one sent), even if the
+// price flaps around a threshold.
+const DEDUPE_WINDOW_MS = 60_000;
+// Every distinct token keeps an upstream poller running, so both are bounded.
+export const MAX_ALERTS = 100;
+export const MAX_ALERT_TOKENS = 20;
+
+export class AlertLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AlertLimitError";
+  }
+}
+
+// Kept on globalThis so dev hot reloads don't drop registrations or leak subscriptions.
+const g = globalThis as typeof globalThis & {
+  // `sent`: last delivery time per alert id
+  __webhookAlerts?: { entries: Map<string, Entry>; series: Map<string, TimeSeries>; sent: Map<string, number> };
+};
+const store = (g.__webhookAlerts ??= { entries: new Map(), series: new Map(), sent: new Map() });
+
+const midOf = (u: TobUpdate): number | undefined => {
+  if (u.bestBid != null && u.bestAsk != null) return (u.bestBid + u.bestAsk) / 2;
+  return u.bestBid ?? u.bestAsk;
+};
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const allowPrivateWebhooks = () => ["1", "true"].includes(process.env.ALERTS_ALLOW_PRIVATE_WEBHOOKS ?? "");
+
+// Loopback, private, link-local, CGNAT, multicast and unspecified addresses (IPv4, IPv6 and IPv4-mapped IPv6).
+function isPrivateAddress(ip: string): boolean {
+  let s = ip.toLowerCase();
+  const mapped = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(s);
+  if (mapped) {
+    const [hi, lo] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+    s = `${hi >> 8}.${hi & 255}.${lo >> 8}.${lo & 255}`;
+  } else if (s.startsWith("::ffff:")) {
+    s = s.slice(7);
+  }
+  if (isIP(s) === 4) {
+    const [a, b] = s.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b < 128) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b < 32) ||
+      (a === 192 && b === 168) ||
+      a >= 224
+    );
+  }
+  return s === "::" || s === "::1" || /^f[cd]/.test(s) || /^fe[89ab]/.test(s) || s.startsWith("ff");
+}
+
+// Why a webhook URL may not be used, or null if it's fine.
+export async function checkWebhookUrl(raw: string): Promise<string | null> {
+  if (allowPrivateWebhooks()) return null;
+  let host: string;
+  try {
+    host = new URL(raw).hostname.replace(/^\[|\]$/g, "");
+  } catch {
+    return "webhookUrl is not a valid URL";
+  }
+  if (host === "localhost" || host.endsWith(".localhost")) return "webhookUrl must be a public host";
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true })).map((a) => a.address);
+    } catch {
+      return "webhookUrl host does not resolve";
+    }
+  }
+  return addresses.some(isPrivateAddress) ? "webhookUrl must be a public host" : null;
+}
+
+// Slack / Discord webhook paths are credentials; listings only show where a rule posts to.
+export function redactWebhookUrl(raw: string): string {
+  try {
+    return `${new URL(raw).origin}/…`;
+  } catch {
+    return "…";
+  }
+}
+
+export async function deliverWebhook(url: string, event: WebhookEvent): Promise<boolean> {
+  const rejected = await checkWebhookUrl(url);
+  if (rejected) {
+    console.warn("[alerts] delivery blocked:", event.id, rejected);
+    return false;
+  }
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      await axios.post(url, event, {
+        timeout: DELIVERY_TIMEOUT_MS,
+        maxRedirects: 0, // a redirect could point at a host the check above would reject
+        headers: { "Content-Type": "application/json", "Idempotency-Key": event.id },
+      });
+      console.log("[alerts] delivered:", event.id, "attempt:", attempt);
+      return true;
+    } catch (e) {
+      const status = axios.isAxiosError(e) ? e.response?.status : undefined;
+      console.warn("[alerts] delivery failed:", event.id, "attempt:", attempt, "status:", status ?? "n/a");
+      // 4xx other than 408/429 won't get better on retry
+      if (status && status >= 400 && status < 500 && status !== 408 && status !== 429) return false;
+      if (attempt < MAX_ATTEMPTS) await sleep(RETRY_BASE_MS * 2 ** (attempt - 1));
+    }
+  }
+  return false;
+}
+
+function seriesFor(tokenId: string) {
+  let s = store.series.get(tokenId);
+  if (!s) {
+    s = new TimeSeries({ maxPoints: 50000, maxAgeMs: 1000 * 60 * 60 * 24 });
+    store.series.set(tokenId, s);
+  }
+  return s;
+}
+
+function evaluate(entry: Entry, series: TimeSeries, now: number) {
+  const { alert } = entry;
+  const message = checkRule(alert.condition, series, now, entry.state);
+  if (!message) return;
+  const lastSentAt = store.sent.get(alert.id);
+  if (lastSentAt != null && now - lastSentAt < DEDUPE_WINDOW_MS) return;
+  store.sent.set(alert.id, now);
+  const eventId = `${alert.id}:${now}`;
+  const event: WebhookEvent = {
+    id: eventId,
+    alertId: alert.id,
+    tokenId: alert.tokenId,
+    label: alert.label,
+    condition: alert.condition,
+    message: alert.label ? `${alert.label}: ${message}` : message,
+    price: series.atOrBefore(now)?.p ?? NaN,
+    firedAt: new Date(now).toISOString(),
+  };
+  void deliverWebhook(alert.webhookUrl, event);
+}
+
+// Every rule listens on the hub itself, so the shared per-token series only takes a point once per tick.
+function onUpdate(entry: Entry, u: TobUpdate) {
+  const p = midOf(u);
+  if (p == null || Number.isNaN(p)) return;
+  const now = u.updatedAt ?? Date.now();
+  const series = seriesFor(u.tokenId);
+  const last = series.atOrBefore(Infinity);
+  if (!last || last.t < now) series.push({ t: now, p });
+  evaluate(entry, series, now);
+}
+
+// Throws AlertLimitError when MAX_ALERTS or MAX_ALERT_TOKENS would be exceeded.
+export function registerAlert(input: Omit<WebhookAlert, "id" | "createdAt">): WebhookAlert {
+  const entries = [...store.entries.values()];
+  if (entries.length >= MAX_ALERTS) throw new AlertLimitError(`At most ${MAX_ALERTS} alerts can be registered`);
+  const tokens = new Set(entries.map((e) => e.alert.tokenId));
+  if (!tokens.has(input.tokenId) && tokens.size >= MAX_ALERT_TOKENS) {
+    throw new AlertLimitError(`Alerts can watch at most ${MAX_ALERT_TOKENS} tokens`);
+  }
+  const alert: WebhookAlert = {
+    ...input,
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: Date.now(),
+  };
+  // The hub stops the token's poller once its last rule unsubscribes.
+  const entry: Entry = { alert, state: {}, unsubscribe: () => {} };
+  store.entries.set(alert.id, entry);
+  entry.unsubscribe = subscribeTob(alert.tokenId, (u) => onUpdate(entry, u));
+  console.log("[alerts] registered:", alert.id, alert.tokenId, describeRule(alert.condition));
+  return alert;
+}
+
+export function removeAlert(id: string): boolean {
+  const entry = store.entries.get(id);
+  if (!entry) return false;
+  entry.unsubscribe();
+  store.entries.delete(id);
+  store.sent.delete(id);
+  if (![...store.entries.values()].some((e) => e.alert.tokenId === entry.alert.tokenId)) {
+    store.series.delete(entry.alert.tokenId);
+  }
+  console.log("[alerts] removed:", id);
+  return true;
+}
+
+// Registered alerts with webhook URLs redacted.
+export function listAlerts(): WebhookAlert[] {
+  return [...store.entries.values()].map((e) => ({ ...e.alert, webhookUrl: redactWebhookUrl(e.alert.webhookUrl) }));
+}